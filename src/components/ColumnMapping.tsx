@@ -3,16 +3,58 @@ import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
+import {
+  DEFAULT_TASK_OPTIONS,
+  DomainCapPolicy,
+  DomainGrouping,
+  EmailTypeAction,
+  OtherDmStrategy,
+  RoleAccountAction,
+  TaskOptions
+} from '@/utils/csvProcessing';
+
+const EMAIL_TYPE_ACTIONS: { value: EmailTypeAction; label: string }[] = [
+  { value: 'keep', label: 'Keep' },
+  { value: 'flag', label: 'Flag for review' },
+  { value: 'delete', label: 'Mark for deletion' },
+];
+
+const ROLE_ACCOUNT_ACTIONS: { value: RoleAccountAction; label: string }[] = [
+  { value: 'keep', label: 'Keep' },
+  { value: 'deprioritise', label: 'Keep, never as other_dm' },
+  { value: 'delete', label: 'Mark for deletion' },
+];
+
+const DOMAIN_GROUPINGS: { value: DomainGrouping; label: string }[] = [
+  { value: 'root-domain', label: 'Root domain (acme.co.uk)' },
+  { value: 'website', label: 'Website host (shop.acme.co.uk)' },
+];
+
+const DOMAIN_CAP_POLICIES: { value: DomainCapPolicy; label: string }[] = [
+  { value: 'delete-all', label: 'Delete all of them' },
+  { value: 'keep-first', label: 'Keep the first ones' },
+  { value: 'keep-best', label: 'Keep the best ones' },
+];
+
+const OTHER_DM_STRATEGIES: { value: OtherDmStrategy; label: string }[] = [
+  { value: 'round-robin', label: 'Next contact (round-robin)' },
+  { value: 'most-senior-other', label: 'Most senior other contact' },
+  { value: 'same-department', label: 'Most senior in same department' },
+  { value: 'random-seeded', label: 'Random (seeded)' },
+];
 
 interface ColumnMappingProps {
   headers: string[];
   fileType: 'domain-only' | 'single-email' | 'multi-email' | 'unknown';
-  onColumnsMapped: (mappedColumns: Record<string, string>) => void;
+  onColumnsMapped: (mappedColumns: Record<string, string>, taskOptions: TaskOptions) => void;
 }
 
 const ColumnMapping: React.FC<ColumnMappingProps> = ({ headers, fileType, onColumnsMapped }) => {
   const [mappedColumns, setMappedColumns] = useState<Record<string, string>>({});
+  const [taskOptions, setTaskOptions] = useState<TaskOptions>(DEFAULT_TASK_OPTIONS);
   
   // Auto-map columns based on headers and file type
   useEffect(() => {
@@ -36,6 +78,12 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ headers, fileType, onColu
       if (websiteColumn) {
         autoMap['website'] = websiteColumn;
       }
+      
+      // An email column is optional and only used to spot role accounts
+      const emailColumn = headers.find(h => patterns.email.test(h));
+      if (emailColumn) {
+        autoMap['email'] = emailColumn;
+      }
     } 
     else if (fileType === 'single-email') {
       // Find email column
@@ -171,7 +219,7 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ headers, fileType, onColu
       }
     }
     
-    onColumnsMapped(mappedColumns);
+    onColumnsMapped(mappedColumns, taskOptions);
     toast.success('Columns mapped successfully');
   };
   
@@ -180,6 +228,7 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ headers, fileType, onColu
       case 'domain-only':
         return [
           { id: 'website', label: 'Website URL', required: true },
+          { id: 'email', label: 'Email', required: false },
         ];
       case 'single-email':
         return [
@@ -276,6 +325,173 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ headers, fileType, onColu
             </div>
           ))}
           
+          {(fileType !== 'domain-only' || mappedColumns['email']) && (
+            <div className="border-t border-gray-200 pt-4 space-y-3">
+              <h3 className="text-sm font-semibold">Processing options</h3>
+              {fileType !== 'domain-only' && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium">Check SPF and DMARC records</label>
+                      <p className="text-xs text-gray-500">
+                        Adds spf_present, spf_providers and dmarc_policy. Doubles the number of DNS lookups.
+                      </p>
+                    </div>
+                    <Switch
+                      checked={taskOptions.checkEmailAuth}
+                      onCheckedChange={(checked) => setTaskOptions(prev => ({ ...prev, checkEmailAuth: checked }))}
+                    />
+                  </div>
+                  {([
+                    { key: 'freeMailAction', label: 'Free webmail addresses (gmail.com, yahoo.com...)' },
+                    { key: 'disposableAction', label: 'Disposable addresses (mailinator.com...)' },
+                  ] as const).map(({ key, label }) => (
+                    <div key={key} className="flex items-center justify-between">
+                      <label className="text-sm font-medium">{label}</label>
+                      <Select
+                        value={taskOptions[key]}
+                        onValueChange={(value) => setTaskOptions(prev => ({ ...prev, [key]: value as EmailTypeAction }))}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EMAIL_TYPE_ACTIONS.map(action => (
+                            <SelectItem key={action.value} value={action.value}>
+                              {action.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                  {mappedColumns['website'] && (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <label className="text-sm font-medium">Flag emails that do not match the website</label>
+                        <p className="text-xs text-gray-500">
+                          domain_match is always written; mismatches are usually contacts scraped from another company.
+                        </p>
+                      </div>
+                      <Switch
+                        checked={taskOptions.flagDomainMismatch}
+                        onCheckedChange={(checked) => setTaskOptions(prev => ({ ...prev, flagDomainMismatch: checked }))}
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium">Group contacts by</label>
+                      <p className="text-xs text-gray-500">
+                        Used for the domain frequency limit and other_dm assignment.
+                      </p>
+                    </div>
+                    <Select
+                      value={taskOptions.domainGrouping}
+                      onValueChange={(value) => setTaskOptions(prev => ({ ...prev, domainGrouping: value as DomainGrouping }))}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DOMAIN_GROUPINGS.map(grouping => (
+                          <SelectItem key={grouping.value} value={grouping.value}>
+                            {grouping.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium">Domains with more than</label>
+                      <p className="text-xs text-gray-500">
+                        Keeping the best ones prefers complete rows, senior titles and personal addresses.
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-16"
+                        value={taskOptions.maxContactsPerDomain}
+                        onChange={(e) => setTaskOptions(prev => ({ ...prev, maxContactsPerDomain: Math.max(1, Number(e.target.value)) }))}
+                      />
+                      <span className="text-sm text-gray-500">contacts</span>
+                      <Select
+                        value={taskOptions.domainCapPolicy}
+                        onValueChange={(value) => setTaskOptions(prev => ({ ...prev, domainCapPolicy: value as DomainCapPolicy }))}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DOMAIN_CAP_POLICIES.map(policy => (
+                            <SelectItem key={policy.value} value={policy.value}>
+                              {policy.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium">Choose other_dm by</label>
+                      <p className="text-xs text-gray-500">
+                        Seniority and department are read from the title column.
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {taskOptions.otherDmStrategy === 'random-seeded' && (
+                        <Input
+                          type="number"
+                          className="w-20"
+                          aria-label="Random seed"
+                          value={taskOptions.otherDmSeed}
+                          onChange={(e) => setTaskOptions(prev => ({ ...prev, otherDmSeed: Number(e.target.value) }))}
+                        />
+                      )}
+                      <Select
+                        value={taskOptions.otherDmStrategy}
+                        onValueChange={(value) => setTaskOptions(prev => ({ ...prev, otherDmStrategy: value as OtherDmStrategy }))}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {OTHER_DM_STRATEGIES.map(strategy => (
+                            <SelectItem key={strategy.value} value={strategy.value}>
+                              {strategy.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </>
+              )}
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Role accounts (info@, billing@, no-reply@...)</label>
+                <Select
+                  value={taskOptions.roleAccountAction}
+                  onValueChange={(value) => setTaskOptions(prev => ({ ...prev, roleAccountAction: value as RoleAccountAction }))}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLE_ACCOUNT_ACTIONS.map(action => (
+                      <SelectItem key={action.value} value={action.value}>
+                        {action.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          
           <Button
             onClick={handleSubmit}
             className="w-full mt-4 bg-hyperke-blue hover:bg-hyperke-darkBlue transition-colors"
@@ -2,25 +2,34 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Download, ChevronDown, ChevronUp, ChevronsUpDown, Users, Trash2 } from 'lucide-react';
-import { CSVData, downloadCSV, excludedColumns } from '@/utils/csvProcessing';
+import { Download, ChevronDown, ChevronUp, ChevronsUpDown, Users, Trash2, FileSpreadsheet, FileArchive, Mail, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  acceptSuggestedEmails,
+  CSVData,
+  DEFAULT_TASK_OPTIONS,
+  excludedColumns,
+  orderHeaders,
+  ProcessingTask
+} from '@/utils/csvProcessing';
+import { loadEmailDomainLists } from '@/utils/emailDomainLists';
+import { loadRoleAccountGroups } from '@/utils/roleAccounts';
+import { downloadCSV, downloadXLSX, downloadZIP, withExtension } from '@/utils/csvExport';
+import SplitCSVDialog from '@/components/SplitCSVDialog';
 
 interface DataPreviewProps {
-  data: CSVData;
-  fileName: string;
+  task: ProcessingTask;
+  onUpdateResult?: (result: CSVData) => void;
 }
 
-const DataPreview: React.FC<DataPreviewProps> = ({ data, fileName }) => {
+const DataPreview: React.FC<DataPreviewProps> = ({ task, onUpdateResult }) => {
+  const { result: data, fileName, originalRowCount } = task;
   const [visibleRows, setVisibleRows] = useState(10);
   const [sortColumn, setSortColumn] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [highlightedDomain, setHighlightedDomain] = useState<string | null>(null);
   const [showMarkedForDeletion, setShowMarkedForDeletion] = useState(true);
-  
-  // Return null early if no data to prevent unnecessary re-renders
-  if (!data || data.length === 0) {
-    return null;
-  }
+  const [showProviderSplit, setShowProviderSplit] = useState(false);
   
   // Create a stable copy of the data to prevent modification of props directly
   const stableData = useMemo(() => {
@@ -58,34 +67,54 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, fileName }) => {
     );
   }, [stableData]);
   
+  // Only the email pipelines look up mail providers
+  const hasProviders = useMemo(() => {
+    return stableData.some(row => 'mx_provider' in row);
+  }, [stableData]);
+  
   // Check if there are any rows with other_dm_name
   const hasAlternativeContacts = useMemo(() => {
     return stableData.some(row => row.other_dm_name && row.other_dm_name.trim() !== '');
   }, [stableData]);
   
-  // Organize headers to show important columns first
-  const priorityHeaders = [
-    'to_be_deleted', 'deletion_reason', 'email', 'fullName', 'full_name', 'firstName', 'first_name', 
-    'lastName', 'last_name', 'title', 'phone', 'company', 'cleaned_company_name', 
-    'website', 'cleaned_website', 'other_dm_name', 'other_dm_email', 'other_dm_title', 'mx_provider'
-  ];
+  // Rows whose email domain looks mistyped
+  const suggestedEmailCount = useMemo(() => {
+    return stableData.filter(row => row['suggested_email']).length;
+  }, [stableData]);
   
-  const prioritizedHeaders = useMemo(() => {
-    // Make sure important headers are included
-    const uniqueHeaders = new Set([...allHeaders]);
-    
-    // Sort the headers with priority headers first
-    return [
-      ...priorityHeaders.filter(h => uniqueHeaders.has(h)),
-      ...Array.from(uniqueHeaders).filter(h => !priorityHeaders.includes(h))
-    ];
-  }, [allHeaders]);
+  // Organize headers to show important columns first
+  const prioritizedHeaders = useMemo(() => orderHeaders(allHeaders), [allHeaders]);
   
   const handleDownload = useCallback(() => {
     // Make sure our updated data with to_be_deleted is downloaded
-    downloadCSV(stableData, `processed_${fileName}`);
+    downloadCSV(stableData, `processed_${withExtension(fileName, 'csv')}`);
   }, [stableData, fileName]);
   
+  const handleDownloadWorkbook = useCallback(() => {
+    downloadXLSX(stableData, `processed_${withExtension(fileName, 'xlsx')}`, originalRowCount);
+  }, [stableData, fileName, originalRowCount]);
+  
+  const handleDownloadBundle = useCallback(() => {
+    downloadZIP({ ...task, result: stableData }, `processed_${withExtension(fileName, 'zip')}`);
+  }, [task, stableData, fileName]);
+  
+  const handleAcceptSuggestions = useCallback(() => {
+    const singleEmail = task.type === 'single-email';
+    onUpdateResult?.(acceptSuggestedEmails(
+      stableData,
+      singleEmail ? task.mappedColumns?.email : 'email',
+      singleEmail ? task.mappedColumns?.website || '' : 'website',
+      { ...DEFAULT_TASK_OPTIONS, ...task.options },
+      loadEmailDomainLists(),
+      loadRoleAccountGroups()
+    ));
+    // MX lookups, the domain cap and other_dm need the whole pipeline, so
+    // corrected rows stay flagged for review instead
+    toast.info(`Accepted ${suggestedEmailCount} suggested emails`, {
+      description: 'Corrected rows are flagged for review: their new domains have not been looked up and the domain cap and other_dm were not applied. Process the downloaded file again to check them.'
+    });
+  }, [task, stableData, onUpdateResult, suggestedEmailCount]);
+  
   const handleLoadMore = useCallback(() => {
     setVisibleRows(prev => Math.min(prev + 10, stableData.length));
   }, [stableData.length]);
@@ -131,6 +160,11 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, fileName }) => {
     setHighlightedDomain(highlightedDomain === domain ? null : domain);
   }, [highlightedDomain]);
   
+  // Return null if no data to prevent unnecessary re-renders
+  if (!data || data.length === 0) {
+    return null;
+  }
+  
   return (
     <Card className="w-full mt-8 shadow-sm animate-fade-in animate-delay-200">
       <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -152,6 +186,18 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, fileName }) => {
           </div>
         </div>
         <div className="flex space-x-2">
+          {suggestedEmailCount > 0 && onUpdateResult && (
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="text-amber-600 hover:bg-amber-50"
+              onClick={handleAcceptSuggestions}
+              title="Corrected rows are flagged for review until the file is processed again"
+            >
+              <Wand2 className="h-4 w-4 mr-2" />
+              Accept {suggestedEmailCount} Suggested Emails
+            </Button>
+          )}
           {markedForDeletionCount > 0 && (
             <Button 
               variant="outline" 
@@ -172,6 +218,35 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, fileName }) => {
             <Download className="h-4 w-4 mr-2" />
             Download CSV
           </Button>
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="text-hyperke-blue hover:bg-hyperke-blue/10"
+            onClick={handleDownloadWorkbook}
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Download XLSX
+          </Button>
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="text-hyperke-blue hover:bg-hyperke-blue/10"
+            onClick={handleDownloadBundle}
+          >
+            <FileArchive className="h-4 w-4 mr-2" />
+            Download ZIP
+          </Button>
+          {hasProviders && (
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="text-hyperke-blue hover:bg-hyperke-blue/10"
+              onClick={() => setShowProviderSplit(true)}
+            >
+              <Mail className="h-4 w-4 mr-2" />
+              Split by Provider
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent className="overflow-x-auto">
@@ -310,6 +385,13 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, fileName }) => {
           </div>
         )}
       </CardContent>
+      <SplitCSVDialog
+        open={showProviderSplit}
+        onOpenChange={setShowProviderSplit}
+        tasks={[task]}
+        initialTaskId={task.id}
+        initialMode="provider"
+      />
     </Card>
   );
 };
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { parseCSVString } from '@/utils/csvParser';
+import {
+  CSVDialect,
+  CSVEncoding,
+  decodeSample,
+  DELIMITER_OPTIONS,
+  ENCODING_OPTIONS,
+  QUOTE_OPTIONS
+} from '@/utils/dialect';
+
+interface DialectPanelProps {
+  fileName: string;
+  sample: Uint8Array;
+  detectedDialect: CSVDialect;
+  onConfirm: (dialect: CSVDialect) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const DialectPanel: React.FC<DialectPanelProps> = ({ fileName, sample, detectedDialect, onConfirm, onCancel }) => {
+  const [dialect, setDialect] = useState<CSVDialect>(detectedDialect);
+
+  // Parse the sample with the current settings so the user can check the columns line up
+  const preview = useMemo(() => {
+    const text = decodeSample(sample, dialect.encoding);
+    // Drop the last (probably truncated) line of the sample
+    const lastBreak = text.lastIndexOf('\n');
+    const completeText = lastBreak > 0 ? text.slice(0, lastBreak) : text;
+    const { headers, data } = parseCSVString(completeText, { delimiter: dialect.delimiter, quote: dialect.quote });
+    return { headers, rows: data.slice(0, PREVIEW_ROWS) };
+  }, [sample, dialect]);
+
+  const handleChange = (key: keyof CSVDialect, value: string) => {
+    setDialect(prev => ({ ...prev, [key]: value }));
+  };
+
+  const isDetected = (key: keyof CSVDialect) => dialect[key] === detectedDialect[key];
+
+  return (
+    <div className="w-full mt-4 border border-gray-200 rounded-lg p-4 bg-white animate-fade-in">
+      <div className="mb-4">
+        <h3 className="font-medium text-gray-900">Confirm file format</h3>
+        <p className="text-sm text-gray-500">
+          Detected settings for <span className="font-medium">{fileName}</span>. Adjust them if the preview looks wrong.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">
+            Encoding {isDetected('encoding') && <span className="text-xs text-gray-400">(detected)</span>}
+          </label>
+          <Select value={dialect.encoding} onValueChange={(value) => handleChange('encoding', value as CSVEncoding)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENCODING_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">
+            Delimiter {isDetected('delimiter') && <span className="text-xs text-gray-400">(detected)</span>}
+          </label>
+          <Select value={dialect.delimiter} onValueChange={(value) => handleChange('delimiter', value)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DELIMITER_OPTIONS.map(option => (
+                <SelectItem key={option.label} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">
+            Quote character {isDetected('quote') && <span className="text-xs text-gray-400">(detected)</span>}
+          </label>
+          <Select value={dialect.quote} onValueChange={(value) => handleChange('quote', value)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUOTE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded border border-gray-200 mb-4">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {preview.headers.map((header, index) => (
+                <th key={`${header}-${index}`} className="px-3 py-2 text-left text-xs font-medium text-gray-500 whitespace-nowrap">
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {preview.rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {preview.headers.map((header, index) => (
+                  <td key={`${rowIndex}-${index}`} className="px-3 py-2 text-xs text-gray-800 whitespace-nowrap max-w-xs truncate">
+                    {row[header]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        {preview.headers.length} columns detected
+      </p>
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          onClick={() => onConfirm(dialect)}
+          className="bg-hyperke-blue hover:bg-hyperke-darkBlue transition-colors"
+        >
+          Continue
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DialectPanel;
@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { RotateCcw, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_EMAIL_DOMAIN_LISTS,
+  EmailDomainLists,
+  loadEmailDomainLists,
+  parseDomainList,
+  saveEmailDomainLists
+} from '@/utils/emailDomainLists';
+
+type ListKey = keyof EmailDomainLists;
+
+const LIST_LABELS: Record<ListKey, string> = {
+  free: 'Free webmail domains',
+  disposable: 'Disposable email domains'
+};
+
+const EmailDomainListsPanel: React.FC = () => {
+  const [lists, setLists] = useState<EmailDomainLists>(loadEmailDomainLists);
+  // Text being edited, parsed and saved when the field loses focus
+  const [drafts, setDrafts] = useState<Record<ListKey, string>>(() => ({
+    free: lists.free.join('\n'),
+    disposable: lists.disposable.join('\n')
+  }));
+  const [importTarget, setImportTarget] = useState<ListKey>('free');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateList = (key: ListKey, domains: string[]) => {
+    const updated = { ...lists, [key]: domains };
+    setLists(updated);
+    setDrafts(prev => ({ ...prev, [key]: domains.join('\n') }));
+    saveEmailDomainLists(updated);
+  };
+
+  const handleImportClick = (key: ListKey) => {
+    setImportTarget(key);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseDomainList(await file.text());
+      const merged = Array.from(new Set([...lists[importTarget], ...imported]));
+      updateList(importTarget, merged);
+      toast.success(`${merged.length - lists[importTarget].length} domains added to the ${LIST_LABELS[importTarget].toLowerCase()}`);
+    } catch (error) {
+      console.error('Error importing domain list:', error);
+      toast.error('Could not read the file');
+    }
+  };
+
+  const handleResetToDefaults = () => {
+    saveEmailDomainLists(null);
+    setLists(DEFAULT_EMAIL_DOMAIN_LISTS);
+    setDrafts({
+      free: DEFAULT_EMAIL_DOMAIN_LISTS.free.join('\n'),
+      disposable: DEFAULT_EMAIL_DOMAIN_LISTS.disposable.join('\n')
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Addresses on these domains get email_type free or disposable, and their domain is never used to group
+        contacts or count domain frequency. One domain per line; subdomains match too. What happens to the rows
+        is chosen per task when mapping columns.
+      </p>
+
+      <div className="grid grid-cols-2 gap-4">
+        {(Object.keys(LIST_LABELS) as ListKey[]).map(key => (
+          <div key={key} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">
+                {LIST_LABELS[key]} ({lists[key].length})
+              </label>
+              <Button variant="ghost" size="sm" onClick={() => handleImportClick(key)}>
+                <Upload className="h-4 w-4 mr-1" />
+                Import
+              </Button>
+            </div>
+            <Textarea
+              className="h-56 font-mono text-xs"
+              value={drafts[key]}
+              onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+              onBlur={() => updateList(key, parseDomainList(drafts[key]))}
+            />
+          </div>
+        ))}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".txt,.csv,text/plain"
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={handleResetToDefaults}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset to bundled lists
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default EmailDomainListsPanel;
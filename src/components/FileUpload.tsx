@@ -1,20 +1,37 @@
 
 import React, { useState, useRef } from 'react';
 import { toast } from 'sonner';
-import { parseCSV, inferCSVType } from '@/utils/csvProcessing';
+import { inferCSVType } from '@/utils/csvProcessing';
+import { ingestFile, IngestProgress, IngestResult, openWorkbook, WorkbookSession } from '@/utils/fileIngestion';
+import { DatasetHandle, releaseDataset } from '@/utils/datasetStore';
+import { CSVDialect, readFileSample, sniffDialect } from '@/utils/dialect';
 import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import DialectPanel from './DialectPanel';
+import SheetPicker from './SheetPicker';
 
 interface FileUploadProps {
   onFileUploaded: (
-    fileName: string, 
-    headers: string[], 
-    data: Record<string, string>[],
+    dataset: DatasetHandle,
     fileType: 'domain-only' | 'single-email' | 'multi-email' | 'unknown'
   ) => void;
 }
 
+type PendingFile = {
+  file: File;
+  sample: Uint8Array;
+  dialect: CSVDialect;
+};
+
+const TEXT_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+const WORKBOOK_EXTENSIONS = ['.xlsx', '.xls'];
+
 const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [readProgress, setReadProgress] = useState<IngestProgress | null>(null);
+  const [pendingFile, setPendingFile] = useState<PendingFile | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<WorkbookSession | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -26,43 +43,128 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
     setIsDragging(false);
   };
 
-  const processFile = (file: File) => {
-    if (!file.name.endsWith('.csv')) {
-      toast.error('Please upload a CSV file');
+  const processFile = async (file: File) => {
+    const fileName = file.name.toLowerCase();
+    const isWorkbook = WORKBOOK_EXTENSIONS.some(extension => fileName.endsWith(extension));
+
+    if (!isWorkbook && !TEXT_EXTENSIONS.some(extension => fileName.endsWith(extension))) {
+      toast.error('Please upload a CSV, TSV, TXT or Excel file');
+      return;
+    }
+
+    if (isReading) {
+      toast.error('Please wait until the current file has been read');
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
+    handleCancelPending();
+
+    if (isWorkbook) {
+      setIsReading(true);
+      setReadProgress(null);
+
       try {
-        const csvContent = event.target?.result as string;
-        const { headers, data } = parseCSV(csvContent);
-        
-        if (headers.length === 0) {
-          toast.error('The CSV file appears to be empty or invalid');
+        const session = await openWorkbook(file);
+        if (session.sheets.length === 0) {
+          session.close();
+          toast.error('The workbook does not contain any sheets');
           return;
         }
-        
-        const fileType = inferCSVType(headers);
-        
-        if (fileType === 'unknown') {
-          toast.warning('Could not determine CSV type. Please ensure it contains email or website columns.');
-        } else {
-          toast.success(`CSV file uploaded successfully: ${fileType === 'domain-only' ? 'Website domains' : fileType === 'single-email' ? 'Single email' : 'Multiple emails'}`);
-        }
-        
-        onFileUploaded(file.name, headers, data, fileType);
+        setPendingWorkbook(session);
       } catch (error) {
-        console.error('Error reading CSV:', error);
-        toast.error('Error reading the CSV file');
+        console.error('Error reading workbook:', error);
+        toast.error('Error reading the Excel file');
+      } finally {
+        setIsReading(false);
       }
-    };
+      return;
+    }
 
-    reader.onerror = () => {
+    try {
+      // Sniff the format from the first bytes and let the user confirm it
+      const sample = await readFileSample(file);
+      const dialect = sniffDialect(sample);
+      console.log(`Detected dialect for ${file.name}:`, dialect);
+      setPendingFile({ file, sample, dialect });
+    } catch (error) {
+      console.error('Error reading CSV:', error);
       toast.error('Error reading the file');
-    };
+    }
+  };
+
+  const handleCancelPending = () => {
+    pendingWorkbook?.close();
+    setPendingWorkbook(null);
+    setPendingFile(null);
+  };
+
+  const handleIngested = ({ handle, errors, errorCount }: IngestResult) => {
+    if (handle.headers.length === 0) {
+      releaseDataset(handle.id);
+      toast.error('The file appears to be empty or invalid');
+      return;
+    }
 
-    reader.readAsText(file);
+    if (errorCount > 0) {
+      console.warn('Malformed CSV rows:', errors);
+      const lines = errors.slice(0, 5).map(error => error.line).join(', ');
+      toast.warning(
+        `${errorCount} malformed row${errorCount === 1 ? '' : 's'} skipped (line${errors.length === 1 ? '' : 's'} ${lines}${errorCount > 5 ? ', ...' : ''})`,
+        { description: errors[0].message }
+      );
+    }
+
+    const fileType = inferCSVType(handle.headers);
+
+    if (fileType === 'unknown') {
+      toast.warning('Could not determine CSV type. Please ensure it contains email or website columns.');
+    } else {
+      toast.success(`CSV file uploaded successfully: ${fileType === 'domain-only' ? 'Website domains' : fileType === 'single-email' ? 'Single email' : 'Multiple emails'}`);
+    }
+
+    onFileUploaded(handle, fileType);
+  };
+
+  const handleDialectConfirmed = async (dialect: CSVDialect) => {
+    if (!pendingFile) return;
+
+    const { file } = pendingFile;
+    setPendingFile(null);
+    setIsReading(true);
+    setReadProgress(null);
+
+    try {
+      handleIngested(await ingestFile(file, dialect, setReadProgress));
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      toast.error('Error reading the CSV file');
+    } finally {
+      setIsReading(false);
+      setReadProgress(null);
+    }
+  };
+
+  const handleSheetConfirmed = async (sheetName: string, headerRow: number) => {
+    if (!pendingWorkbook) return;
+
+    const session = pendingWorkbook;
+    setPendingWorkbook(null);
+    setIsReading(true);
+    setReadProgress(null);
+
+    try {
+      handleIngested(await session.convert(
+        sheetName,
+        headerRow,
+        rowCount => setReadProgress({ bytesRead: 0, totalBytes: 0, rowCount })
+      ));
+    } catch (error) {
+      console.error('Error converting sheet:', error);
+      toast.error('Error reading the Excel sheet');
+    } finally {
+      setIsReading(false);
+      setReadProgress(null);
+    }
   };
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
@@ -80,9 +182,12 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
       const file = e.target.files[0];
       processFile(file);
     }
+    // Allow selecting the same file again after cancelling
+    e.target.value = '';
   };
 
   const handleClick = () => {
+    if (isReading) return;
     fileInputRef.current?.click();
   };
 
@@ -112,16 +217,50 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
               ></path>
             </svg>
           </div>
-          <h3 className="text-lg font-medium text-gray-700 mb-1">Drag & drop a CSV file here, or click to select</h3>
-          <p className="text-sm text-gray-500">Supports CSV files only</p>
+          <h3 className="text-lg font-medium text-gray-700 mb-1">Drag & drop a CSV or Excel file here, or click to select</h3>
+          <p className="text-sm text-gray-500">Supports CSV, TSV, delimited text and Excel (.xlsx, .xls) files</p>
+          {isReading && (
+            <div className="w-full max-w-md mt-4">
+              {readProgress && readProgress.totalBytes > 0 && (
+                <Progress
+                  value={(readProgress.bytesRead / readProgress.totalBytes) * 100}
+                  className="h-2 mb-1"
+                />
+              )}
+              <p className="text-xs text-gray-500 text-center">
+                Reading file... {readProgress ? `${readProgress.rowCount.toLocaleString()} rows parsed` : ''}
+              </p>
+            </div>
+          )}
           <input
             type="file"
             ref={fileInputRef}
             onChange={handleFileInputChange}
-            accept=".csv"
+            accept={[...TEXT_EXTENSIONS, ...WORKBOOK_EXTENSIONS].join(',')}
             className="hidden"
           />
         </div>
+
+        {pendingFile && (
+          <DialectPanel
+            key={pendingFile.file.name}
+            fileName={pendingFile.file.name}
+            sample={pendingFile.sample}
+            detectedDialect={pendingFile.dialect}
+            onConfirm={handleDialectConfirmed}
+            onCancel={handleCancelPending}
+          />
+        )}
+
+        {pendingWorkbook && (
+          <SheetPicker
+            key={pendingWorkbook.fileName}
+            fileName={pendingWorkbook.fileName}
+            sheets={pendingWorkbook.sheets}
+            onConfirm={handleSheetConfirmed}
+            onCancel={handleCancelPending}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,284 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Download, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { triggerDownload } from '@/utils/csvExport';
+import { LookupSettings } from '@/utils/lookupSettings';
+import {
+  clearMXCache,
+  deleteMXEntry,
+  exportMXCache,
+  importMXCache,
+  listMXEntries,
+  MXCacheEntry,
+  purgeExpiredMXEntries
+} from '@/utils/mxCache';
+import { clearTXTCache, countTXTEntries, purgeExpiredTXTEntries } from '@/utils/txtCache';
+
+// Only this many matching entries are listed; use the search box to narrow down
+const MAX_LISTED_ENTRIES = 100;
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+interface MXCachePanelProps {
+  settings: LookupSettings;
+  onSettingsChange: (changes: Partial<LookupSettings>) => void;
+}
+
+const MXCachePanel: React.FC<MXCachePanelProps> = ({ settings, onSettingsChange }) => {
+  const [entries, setEntries] = useState<MXCacheEntry[]>([]);
+  const [txtCount, setTxtCount] = useState(0);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [confirmClear, setConfirmClear] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [mxEntries, txtEntries] = await Promise.all([listMXEntries(), countTXTEntries()]);
+      setEntries(mxEntries);
+      setTxtCount(txtEntries);
+    } catch (error) {
+      console.error('Error reading MX cache:', error);
+      toast.error('Could not read the MX cache');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshEntries();
+  }, [refreshEntries]);
+
+  const now = Date.now();
+  const failedCount = entries.filter(entry => entry.status === 'failed').length;
+  const expiredCount = entries.filter(entry => entry.expiresAt <= now).length;
+
+  const matchingEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return query ? entries.filter(entry => entry.domain.includes(query)) : entries;
+  }, [entries, search]);
+
+  const handleExport = async () => {
+    try {
+      const json = await exportMXCache();
+      triggerDownload(new Blob([json], { type: 'application/json' }), 'mx-cache.json');
+    } catch (error) {
+      console.error('Error exporting MX cache:', error);
+      toast.error('Could not export the MX cache');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = await importMXCache(await file.text());
+      toast.success(`Imported ${imported} MX cache entr${imported === 1 ? 'y' : 'ies'}`);
+      await refreshEntries();
+    } catch (error) {
+      console.error('Error importing MX cache:', error);
+      toast.error('Could not import the file', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  const handlePurgeExpired = async () => {
+    try {
+      // SPF/DMARC lookups follow the same expiry rules, so purge them too
+      const [removedMX, removedTXT] = await Promise.all([purgeExpiredMXEntries(), purgeExpiredTXTEntries()]);
+      const removed = removedMX + removedTXT;
+      toast.success(`Removed ${removed} expired entr${removed === 1 ? 'y' : 'ies'}`);
+      await refreshEntries();
+    } catch (error) {
+      console.error('Error purging MX cache:', error);
+      toast.error('Could not purge the MX cache');
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await Promise.all([clearMXCache(), clearTXTCache()]);
+      toast.success('MX cache cleared');
+      await refreshEntries();
+    } catch (error) {
+      console.error('Error clearing MX cache:', error);
+      toast.error('Could not clear the MX cache');
+    }
+  };
+
+  const handleDeleteEntry = async (domain: string) => {
+    try {
+      await deleteMXEntry(domain);
+      setEntries(prev => prev.filter(entry => entry.domain !== domain));
+    } catch (error) {
+      console.error('Error deleting MX cache entry:', error);
+      toast.error(`Could not remove ${domain}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Keep lookups for (hours)</label>
+          <Input
+            type="number"
+            min={0}
+            value={settings.cacheTtlHours}
+            onChange={(e) => onSettingsChange({ cacheTtlHours: Math.max(0, Number(e.target.value)) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Retry failed lookups after (minutes)</label>
+          <Input
+            type="number"
+            min={0}
+            value={settings.negativeCacheTtlMinutes}
+            onChange={(e) => onSettingsChange({ negativeCacheTtlMinutes: Math.max(0, Number(e.target.value)) })}
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Expire lookups at the TTL given by DNS when it is shorter</label>
+        <Switch
+          checked={settings.honourDnsTtl}
+          onCheckedChange={(checked) => onSettingsChange({ honourDnsTtl: checked })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+        <p className="text-sm text-gray-600">
+          {entries.length} cached domains · {failedCount} failed · {expiredCount} expired
+          {txtCount > 0 && ` · ${txtCount} SPF/DMARC lookups`}
+        </p>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={entries.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+      </div>
+
+      <Input
+        placeholder="Search domains"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+
+      <div className="rounded border border-gray-200 max-h-64 overflow-y-auto text-xs">
+        {isLoading ? (
+          <p className="p-2 text-gray-500">Loading...</p>
+        ) : matchingEntries.length === 0 ? (
+          <p className="p-2 text-gray-500">No cached lookups</p>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-gray-600">
+                <th className="px-2 py-1 font-medium">Domain</th>
+                <th className="px-2 py-1 font-medium">Provider</th>
+                <th className="px-2 py-1 font-medium">MX records</th>
+                <th className="px-2 py-1 font-medium">Expires</th>
+                <th className="px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {matchingEntries.slice(0, MAX_LISTED_ENTRIES).map(entry => (
+                <tr key={entry.domain} className="border-t border-gray-100 align-top">
+                  <td className="px-2 py-1 text-gray-800">{entry.domain}</td>
+                  <td className={`px-2 py-1 ${entry.status === 'failed' ? 'text-red-600' : ''}`} title={entry.error}>
+                    {entry.provider}
+                  </td>
+                  <td className="px-2 py-1 text-gray-600 break-all">
+                    {entry.records.length > 0 ? entry.records.join(', ') : '-'}
+                  </td>
+                  <td
+                    className={`px-2 py-1 whitespace-nowrap ${entry.expiresAt <= now ? 'text-gray-400' : 'text-gray-600'}`}
+                    title={`Fetched ${formatTime(entry.fetchedAt)}`}
+                  >
+                    {formatTime(entry.expiresAt)}
+                  </td>
+                  <td className="px-2 py-1">
+                    <button
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={() => handleDeleteEntry(entry.domain)}
+                      aria-label={`Remove ${entry.domain}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {matchingEntries.length > MAX_LISTED_ENTRIES && (
+        <p className="text-xs text-gray-500">
+          Showing {MAX_LISTED_ENTRIES} of {matchingEntries.length} entries
+        </p>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" size="sm" onClick={handlePurgeExpired} disabled={expiredCount === 0}>
+          Purge expired
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-red-600 hover:bg-red-50"
+          onClick={() => setConfirmClear(true)}
+          disabled={entries.length === 0}
+        >
+          Clear cache
+        </Button>
+      </div>
+
+      <AlertDialog open={confirmClear} onOpenChange={setConfirmClear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clear the MX cache?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {entries.length + txtCount} cached lookups, including SPF and DMARC records, will be removed and looked up again on the next run.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleClear}>
+              Clear cache
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default MXCachePanel;
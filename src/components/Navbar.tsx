@@ -2,19 +2,17 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/context/AuthContext';
-import { LogOut, RefreshCw, ExternalLink } from 'lucide-react';
+import { LogOut, RefreshCw, Scissors, Settings } from 'lucide-react';
 
 interface NavbarProps {
   onReset: () => void;
+  onSplitCSV: () => void;
+  onOpenSettings: () => void;
 }
 
-const Navbar: React.FC<NavbarProps> = ({ onReset }) => {
+const Navbar: React.FC<NavbarProps> = ({ onReset, onSplitCSV, onOpenSettings }) => {
   const { logout } = useAuth();
   
-  const handleOpenSplitCSV = () => {
-    window.open('https://splitcsv.netlify.app', '_blank', 'noopener,noreferrer');
-  };
-  
   return (
     <div className="w-full bg-white/80 backdrop-blur-md border-b border-gray-200 fixed top-0 z-50 py-3 px-6 shadow-sm">
       <div className="max-w-7xl mx-auto flex items-center justify-between">
@@ -39,12 +37,22 @@ const Navbar: React.FC<NavbarProps> = ({ onReset }) => {
             variant="outline" 
             size="sm" 
             className="text-gray-600 hover:text-hyperke-blue hover:border-hyperke-blue transition-colors"
-            onClick={handleOpenSplitCSV}
+            onClick={onSplitCSV}
           >
-            <ExternalLink className="h-4 w-4 mr-2" />
+            <Scissors className="h-4 w-4 mr-2" />
             Split CSV
           </Button>
           
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="text-gray-600 hover:text-hyperke-blue hover:border-hyperke-blue transition-colors"
+            onClick={onOpenSettings}
+          >
+            <Settings className="h-4 w-4 mr-2" />
+            Settings
+          </Button>
+          
           <Button 
             variant="outline" 
             size="sm" 
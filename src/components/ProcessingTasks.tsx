@@ -6,9 +6,10 @@ import { ProcessingTask } from '@/utils/csvProcessing';
 
 interface ProcessingTasksProps {
   tasks: ProcessingTask[];
+  onCancelTask: (taskId: string) => void;
 }
 
-const ProcessingTasks: React.FC<ProcessingTasksProps> = ({ tasks }) => {
+const ProcessingTasks: React.FC<ProcessingTasksProps> = ({ tasks, onCancelTask }) => {
   if (tasks.length === 0) {
     return null;
   }
@@ -21,7 +22,7 @@ const ProcessingTasks: React.FC<ProcessingTasksProps> = ({ tasks }) => {
       <CardContent>
         <div className="space-y-2">
           {tasks.map((task) => (
-            <TaskItem key={task.id} task={task} />
+            <TaskItem key={task.id} task={task} onCancel={() => onCancelTask(task.id)} />
           ))}
         </div>
       </CardContent>
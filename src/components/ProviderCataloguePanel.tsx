@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  classifyMXHosts,
+  DEFAULT_PROVIDER_CATALOGUE,
+  loadProviderCatalogue,
+  ProviderCategory,
+  ProviderRule,
+  saveProviderCatalogue
+} from '@/utils/providerCatalogue';
+
+const ProviderCataloguePanel: React.FC = () => {
+  const [rules, setRules] = useState<ProviderRule[]>(loadProviderCatalogue);
+  const [testHost, setTestHost] = useState('');
+
+  const updateRules = (updated: ProviderRule[]) => {
+    setRules(updated);
+    saveProviderCatalogue(updated);
+  };
+
+  const updateRule = (index: number, changes: Partial<ProviderRule>) => {
+    updateRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleAddRule = () => {
+    updateRules([...rules, { pattern: '', provider: '', category: 'mailbox' }]);
+  };
+
+  const handleRemoveRule = (index: number) => {
+    updateRules(rules.filter((_, i) => i !== index));
+  };
+
+  const handleResetToDefaults = () => {
+    saveProviderCatalogue(null);
+    setRules(DEFAULT_PROVIDER_CATALOGUE);
+  };
+
+  const testResult = testHost.trim()
+    ? classifyMXHosts([testHost.trim()], rules)
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        MX hosts ending in a pattern are assigned its provider. Mailbox providers go into mx_provider;
+        gateways (spam and security filters in front of another provider) go into mx_gateway.
+        Unmatched hosts are reported as other-hosted.
+      </p>
+
+      <div className="rounded border border-gray-200 max-h-72 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 sticky top-0 z-10">
+            <tr className="text-left text-gray-600">
+              <th className="px-2 py-1 font-medium">MX host pattern</th>
+              <th className="px-2 py-1 font-medium">Provider</th>
+              <th className="px-2 py-1 font-medium">Category</th>
+              <th className="px-2 py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule, index) => (
+              <tr key={index} className="border-t border-gray-100">
+                <td className="px-2 py-1">
+                  <Input
+                    className="h-7 text-xs"
+                    placeholder="pphosted.com"
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(index, { pattern: e.target.value.trim().toLowerCase() })}
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <Input
+                    className="h-7 text-xs"
+                    placeholder="proofpoint"
+                    value={rule.provider}
+                    onChange={(e) => updateRule(index, { provider: e.target.value.trim().toLowerCase() })}
+                  />
+                </td>
+                <td className="px-2 py-1 w-32">
+                  <Select
+                    value={rule.category}
+                    onValueChange={(value) => updateRule(index, { category: value as ProviderCategory })}
+                  >
+                    <SelectTrigger className="h-7 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mailbox">Mailbox</SelectItem>
+                      <SelectItem value="gateway">Gateway</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </td>
+                <td className="px-2 py-1">
+                  <button
+                    className="text-gray-400 hover:text-red-600"
+                    onClick={() => handleRemoveRule(index)}
+                    aria-label="Remove rule"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between">
+        <Button variant="outline" size="sm" onClick={handleAddRule}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add rule
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleResetToDefaults}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset to defaults
+        </Button>
+      </div>
+
+      <div className="border-t border-gray-200 pt-4 space-y-2">
+        <label className="text-sm font-medium">Try an MX host</label>
+        <Input
+          placeholder="mx0a-001.pphosted.com"
+          value={testHost}
+          onChange={(e) => setTestHost(e.target.value)}
+        />
+        {testResult && (
+          <p className="text-xs text-gray-600">
+            mx_provider: {testResult.provider}
+            {testResult.gateway && ` · mx_gateway: ${testResult.gateway}`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProviderCataloguePanel;
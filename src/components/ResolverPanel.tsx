@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { createResolver, DNSFixture, parseDNSFixture, RESOLVER_OPTIONS, ResolverType } from '@/utils/dnsResolver';
+import {
+  getResolverConfig,
+  loadDNSFixture,
+  LookupSettings,
+  saveDNSFixture
+} from '@/utils/lookupSettings';
+
+interface ResolverPanelProps {
+  settings: LookupSettings;
+  onSettingsChange: (changes: Partial<LookupSettings>) => void;
+}
+
+const ResolverPanel: React.FC<ResolverPanelProps> = ({ settings, onSettingsChange }) => {
+  const [fixture, setFixture] = useState<DNSFixture | null>(loadDNSFixture);
+  const [testDomain, setTestDomain] = useState('');
+  const [testResult, setTestResult] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFixtureSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseDNSFixture(await file.text());
+      saveDNSFixture(parsed);
+      setFixture(parsed);
+      toast.success(`Loaded MX records for ${Object.keys(parsed).length} domains`);
+    } catch (error) {
+      console.error('Error loading DNS fixture:', error);
+      toast.error('Could not load the fixture', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  const handleRemoveFixture = () => {
+    saveDNSFixture(null);
+    setFixture(null);
+  };
+
+  const handleTest = async () => {
+    const domain = testDomain.trim().toLowerCase();
+    if (!domain) return;
+
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const answer = await createResolver(getResolverConfig(settings)).resolve(domain, 'MX');
+      if (answer.nxdomain) {
+        setTestResult('Domain does not exist');
+      } else {
+        setTestResult(answer.records.length > 0 ? answer.records.join(', ') : 'No MX records');
+      }
+    } catch (error) {
+      setTestResult(`Lookup failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <RadioGroup
+        value={settings.resolver}
+        onValueChange={(value) => onSettingsChange({ resolver: value as ResolverType })}
+      >
+        {RESOLVER_OPTIONS.map(option => (
+          <div key={option.value} className="flex items-center space-x-2">
+            <RadioGroupItem value={option.value} id={`resolver-${option.value}`} />
+            <Label htmlFor={`resolver-${option.value}`}>{option.label}</Label>
+          </div>
+        ))}
+      </RadioGroup>
+
+      {settings.resolver === 'custom' && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">DNS over HTTPS URL (JSON API)</label>
+          <Input
+            placeholder="https://dns.example.com/resolve"
+            value={settings.customResolverUrl}
+            onChange={(e) => onSettingsChange({ customResolverUrl: e.target.value.trim() })}
+          />
+          <p className="text-xs text-gray-500">
+            The server is queried with ?name=...&amp;type=MX (or TXT for SPF and DMARC) and must answer in the JSON format used by Google and Cloudflare.
+          </p>
+        </div>
+      )}
+
+      {settings.resolver === 'fixture' && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">
+            A JSON object mapping domains to MX records, e.g. {'{ "example.com": ["10 aspmx.l.google.com."] }'}.
+            Domains missing from the file are treated as non-existent. Fixture answers are not cached.
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              {fixture ? 'Replace fixture' : 'Load fixture'}
+            </Button>
+            {fixture && (
+              <>
+                <span className="text-sm text-gray-600">{Object.keys(fixture).length} domains loaded</span>
+                <Button variant="ghost" size="sm" className="text-gray-500" onClick={handleRemoveFixture}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFixtureSelected}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4 border-t border-gray-200 pt-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Parallel lookups</label>
+          <Input
+            type="number"
+            min={1}
+            value={settings.concurrency}
+            onChange={(e) => onSettingsChange({ concurrency: Math.max(1, Number(e.target.value)) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Request timeout (seconds)</label>
+          <Input
+            type="number"
+            min={1}
+            value={settings.requestTimeoutSeconds}
+            onChange={(e) => onSettingsChange({ requestTimeoutSeconds: Math.max(1, Number(e.target.value)) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Retries per lookup</label>
+          <Input
+            type="number"
+            min={0}
+            value={settings.maxRetries}
+            onChange={(e) => onSettingsChange({ maxRetries: Math.max(0, Number(e.target.value)) })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Rate limits (HTTP 429), server errors and timeouts are retried with exponential backoff.
+        Lower the number of parallel lookups if the resolver keeps rate limiting you.
+      </p>
+
+      <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+        <label className="text-sm font-medium">
+          Mark rows for deletion when the email domain does not exist or has no MX records
+        </label>
+        <Switch
+          checked={settings.flagDeadDomains}
+          onCheckedChange={(checked) => onSettingsChange({ flagDeadDomains: checked })}
+        />
+      </div>
+
+      <div className="border-t border-gray-200 pt-4 space-y-2">
+        <label className="text-sm font-medium">Test lookup</label>
+        <div className="flex space-x-2">
+          <Input
+            placeholder="example.com"
+            value={testDomain}
+            onChange={(e) => setTestDomain(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleTest()}
+          />
+          <Button variant="outline" onClick={handleTest} disabled={isTesting || !testDomain.trim()}>
+            {isTesting ? 'Looking up...' : 'Look up MX'}
+          </Button>
+        </div>
+        {testResult && <p className="text-xs text-gray-600 break-all">{testResult}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ResolverPanel;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  createRoleAccountMatcher,
+  DEFAULT_ROLE_ACCOUNT_GROUPS,
+  loadRoleAccountGroups,
+  parsePatternList,
+  RoleAccountGroup,
+  saveRoleAccountGroups
+} from '@/utils/roleAccounts';
+
+const RoleAccountsPanel: React.FC = () => {
+  const [groups, setGroups] = useState<RoleAccountGroup[]>(loadRoleAccountGroups);
+  // Pattern text being edited per group, parsed and saved when the field loses focus
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [testEmail, setTestEmail] = useState('');
+
+  const updateGroups = (updated: RoleAccountGroup[]) => {
+    setGroups(updated);
+    saveRoleAccountGroups(updated);
+  };
+
+  const updateGroup = (index: number, changes: Partial<RoleAccountGroup>) => {
+    updateGroups(groups.map((group, i) => (i === index ? { ...group, ...changes } : group)));
+  };
+
+  const handlePatternsBlur = (index: number) => {
+    const draft = drafts[groups[index].id];
+    if (draft === undefined) return;
+
+    updateGroup(index, { patterns: parsePatternList(draft) });
+    setDrafts(prev => {
+      const { [groups[index].id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleAddGroup = () => {
+    updateGroups([...groups, { id: `custom-${Date.now()}`, label: 'Custom', enabled: true, patterns: [] }]);
+  };
+
+  const handleResetToDefaults = () => {
+    saveRoleAccountGroups(null);
+    setGroups(DEFAULT_ROLE_ACCOUNT_GROUPS);
+    setDrafts({});
+  };
+
+  const testResult = testEmail.trim()
+    ? createRoleAccountMatcher(groups)(testEmail.trim())
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Local parts (before the @) of addresses that belong to a function rather than a person. One pattern per
+        line; * matches anything, e.g. no-reply* or *-support. Only enabled groups are used. What happens to
+        role accounts is chosen per task when mapping columns.
+      </p>
+
+      <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+        {groups.map((group, index) => (
+          <div key={group.id} className="rounded border border-gray-200 p-2 space-y-2">
+            <div className="flex items-center space-x-2">
+              <Switch
+                checked={group.enabled}
+                onCheckedChange={(checked) => updateGroup(index, { enabled: checked })}
+              />
+              <Input
+                className="h-7 text-sm w-40"
+                value={group.label}
+                onChange={(e) => updateGroup(index, { label: e.target.value })}
+              />
+              <span className="text-xs text-gray-500 flex-1">{group.patterns.length} patterns</span>
+              <button
+                className="text-gray-400 hover:text-red-600"
+                onClick={() => updateGroups(groups.filter((_, i) => i !== index))}
+                aria-label="Remove group"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+            <Textarea
+              className="h-24 font-mono text-xs"
+              value={drafts[group.id] ?? group.patterns.join('\n')}
+              onChange={(e) => setDrafts(prev => ({ ...prev, [group.id]: e.target.value }))}
+              onBlur={() => handlePatternsBlur(index)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between">
+        <Button variant="outline" size="sm" onClick={handleAddGroup}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add group
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleResetToDefaults}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset to defaults
+        </Button>
+      </div>
+
+      <div className="border-t border-gray-200 pt-4 space-y-2">
+        <label className="text-sm font-medium">Try an address</label>
+        <Input
+          placeholder="no-reply-billing@example.com"
+          value={testEmail}
+          onChange={(e) => setTestEmail(e.target.value)}
+        />
+        {testResult !== null && (
+          <p className="text-xs text-gray-600">
+            {testResult ? 'Role account' : 'Personal address'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoleAccountsPanel;
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import MXCachePanel from '@/components/MXCachePanel';
+import ResolverPanel from '@/components/ResolverPanel';
+import ProviderCataloguePanel from '@/components/ProviderCataloguePanel';
+import EmailDomainListsPanel from '@/components/EmailDomainListsPanel';
+import RoleAccountsPanel from '@/components/RoleAccountsPanel';
+import { LookupSettings, loadLookupSettings, saveLookupSettings } from '@/utils/lookupSettings';
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onOpenChange }) => {
+  const [settings, setSettings] = useState<LookupSettings>(loadLookupSettings);
+
+  useEffect(() => {
+    if (open) {
+      setSettings(loadLookupSettings());
+    }
+  }, [open]);
+
+  const handleSettingsChange = (changes: Partial<LookupSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    saveLookupSettings(updated);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Changes apply to the next task you start.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="resolver">
+          <TabsList>
+            <TabsTrigger value="resolver">MX lookups</TabsTrigger>
+            <TabsTrigger value="providers">Providers</TabsTrigger>
+            <TabsTrigger value="mx-cache">MX cache</TabsTrigger>
+            <TabsTrigger value="email-domains">Email domains</TabsTrigger>
+            <TabsTrigger value="role-accounts">Role accounts</TabsTrigger>
+          </TabsList>
+          <TabsContent value="resolver">
+            <ResolverPanel settings={settings} onSettingsChange={handleSettingsChange} />
+          </TabsContent>
+          <TabsContent value="providers">
+            <ProviderCataloguePanel />
+          </TabsContent>
+          <TabsContent value="mx-cache">
+            <MXCachePanel settings={settings} onSettingsChange={handleSettingsChange} />
+          </TabsContent>
+          <TabsContent value="email-domains">
+            <EmailDomainListsPanel />
+          </TabsContent>
+          <TabsContent value="role-accounts">
+            <RoleAccountsPanel />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
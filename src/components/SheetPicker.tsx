@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { SheetSummary } from '@/utils/xlsxImport';
+
+interface SheetPickerProps {
+  fileName: string;
+  sheets: SheetSummary[];
+  onConfirm: (sheetName: string, headerRow: number) => void;
+  onCancel: () => void;
+}
+
+const SheetPicker: React.FC<SheetPickerProps> = ({ fileName, sheets, onConfirm, onCancel }) => {
+  // Default to the first sheet that actually has data
+  const [sheetName, setSheetName] = useState(
+    (sheets.find(sheet => sheet.rowCount > 0) || sheets[0])?.name || ''
+  );
+  const [headerRow, setHeaderRow] = useState(0);
+
+  const sheet = sheets.find(s => s.name === sheetName);
+  const preview = sheet ? sheet.preview : [];
+  const columnCount = preview.reduce((max, row) => Math.max(max, row.length), 0);
+
+  const handleSheetChange = (value: string) => {
+    setSheetName(value);
+    setHeaderRow(0);
+  };
+
+  return (
+    <div className="w-full mt-4 border border-gray-200 rounded-lg p-4 bg-white animate-fade-in">
+      <div className="mb-4">
+        <h3 className="font-medium text-gray-900">Choose sheet and header row</h3>
+        <p className="text-sm text-gray-500">
+          <span className="font-medium">{fileName}</span> contains {sheets.length} sheet{sheets.length === 1 ? '' : 's'}. Click a row in the preview to use it as the header.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Sheet</label>
+          <Select value={sheetName} onValueChange={handleSheetChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sheets.map(s => (
+                <SelectItem key={s.name} value={s.name}>
+                  {s.name} ({s.rowCount} rows)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Header row</label>
+          <Select value={String(headerRow)} onValueChange={(value) => setHeaderRow(Number(value))}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {preview.map((_, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  Row {index + 1}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded border border-gray-200 mb-4">
+        <table className="min-w-full divide-y divide-gray-200">
+          <tbody className="bg-white divide-y divide-gray-200">
+            {preview.map((row, rowIndex) => (
+              <tr
+                key={rowIndex}
+                className={`cursor-pointer ${rowIndex === headerRow ? 'bg-hyperke-blue/10 font-medium' : rowIndex < headerRow ? 'opacity-40' : 'hover:bg-gray-50'}`}
+                onClick={() => setHeaderRow(rowIndex)}
+              >
+                <td className="px-3 py-2 text-xs text-gray-400 whitespace-nowrap">{rowIndex + 1}</td>
+                {Array.from({ length: columnCount }).map((_, colIndex) => (
+                  <td key={colIndex} className="px-3 py-2 text-xs text-gray-800 whitespace-nowrap max-w-xs truncate">
+                    {row[colIndex] || ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          onClick={() => onConfirm(sheetName, headerRow)}
+          disabled={!sheet || sheet.rowCount === 0}
+          className="bg-hyperke-blue hover:bg-hyperke-darkBlue transition-colors"
+        >
+          Continue
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SheetPicker;
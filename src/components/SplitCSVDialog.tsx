@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DomainGrouping, ProcessingTask } from '@/utils/csvProcessing';
+import { getExportHeaders } from '@/utils/csvExport';
+import { downloadSplitParts, splitData, SplitStrategy } from '@/utils/csvSplitter';
+
+export type SplitMode = 'rows-per-file' | 'file-count' | 'provider' | 'domain' | 'column';
+
+interface SplitCSVDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tasks: ProcessingTask[];
+  initialTaskId?: string;
+  initialMode?: SplitMode;
+}
+
+const SPLIT_MODES: { value: SplitMode; label: string }[] = [
+  { value: 'rows-per-file', label: 'N rows per file' },
+  { value: 'file-count', label: 'Number of files' },
+  { value: 'provider', label: 'By mail provider (mx_provider)' },
+  { value: 'domain', label: 'By domain, keeping domains together' },
+  { value: 'column', label: 'By column value' },
+];
+
+const SplitCSVDialog: React.FC<SplitCSVDialogProps> = ({
+  open,
+  onOpenChange,
+  tasks,
+  initialTaskId,
+  initialMode
+}) => {
+  const completedTasks = useMemo(
+    () => tasks.filter(task => task.status === 'complete' && task.result && task.result.length > 0),
+    [tasks]
+  );
+
+  const [taskId, setTaskId] = useState('');
+  const [mode, setMode] = useState<SplitMode>('rows-per-file');
+  const [amount, setAmount] = useState(1000);
+  const [column, setColumn] = useState('');
+  const [excludeDeleted, setExcludeDeleted] = useState(true);
+  const [asZip, setAsZip] = useState(true);
+  const [balanceProviders, setBalanceProviders] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  // Start from the task and mode the dialog was opened for, if any
+  useEffect(() => {
+    if (!open) return;
+    if (initialTaskId) setTaskId(initialTaskId);
+    if (initialMode) setMode(initialMode);
+  }, [open, initialTaskId, initialMode]);
+
+  // Default to the most recent completed task
+  useEffect(() => {
+    if (!completedTasks.some(task => task.id === taskId)) {
+      setTaskId(completedTasks.length > 0 ? completedTasks[completedTasks.length - 1].id : '');
+    }
+  }, [completedTasks, taskId]);
+
+  const task = completedTasks.find(t => t.id === taskId);
+
+  // Split by domain the same way the task grouped domains for the cap and
+  // other_dm; tasks from before root_domain existed grouped by website
+  const domainGrouping: DomainGrouping = task?.options?.domainGrouping || 'website';
+
+  const sourceData = useMemo(() => {
+    if (!task) return [];
+    return excludeDeleted ? task.result.filter(row => row.to_be_deleted !== 'true') : task.result;
+  }, [task, excludeDeleted]);
+
+  const columns = useMemo(() => getExportHeaders(sourceData), [sourceData]);
+
+  const strategy = useMemo<SplitStrategy | null>(() => {
+    switch (mode) {
+      case 'rows-per-file':
+        return amount > 0 ? { type: 'rows-per-file', rowsPerFile: amount } : null;
+      case 'file-count':
+        return amount > 0 ? { type: 'file-count', fileCount: amount } : null;
+      case 'domain':
+        return amount > 0 ? { type: 'domain', rowsPerFile: amount, grouping: domainGrouping } : null;
+      case 'provider':
+        if (!balanceProviders) return { type: 'provider' };
+        return amount > 0 ? { type: 'provider', maxRowsPerFile: amount } : null;
+      case 'column':
+        return column ? { type: 'column', column } : null;
+    }
+  }, [mode, amount, column, balanceProviders, domainGrouping]);
+
+  const parts = useMemo(
+    () => (strategy ? splitData(sourceData, strategy) : []),
+    [sourceData, strategy]
+  );
+
+  const handleDownload = async () => {
+    if (!task) return;
+
+    setIsDownloading(true);
+    try {
+      await downloadSplitParts(parts, `processed_${task.fileName}`, asZip);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const needsAmount = mode === 'rows-per-file' || mode === 'file-count' || mode === 'domain' ||
+    (mode === 'provider' && balanceProviders);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Split CSV</DialogTitle>
+          <DialogDescription>
+            Split the result of a completed task into several files. Everything stays in your browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {completedTasks.length === 0 ? (
+          <p className="text-sm text-gray-500">Process a file first; completed tasks can be split here.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Task</label>
+              <Select value={taskId} onValueChange={setTaskId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select a task" />
+                </SelectTrigger>
+                <SelectContent>
+                  {completedTasks.map(t => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.fileName} ({t.result.length} rows)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Split by</label>
+              <Select value={mode} onValueChange={(value) => setMode(value as SplitMode)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SPLIT_MODES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {mode === 'domain' && (
+              <p className="text-xs text-gray-500">
+                Rows are grouped by {domainGrouping === 'website' ? 'website host (cleaned_website)' : 'root domain (root_domain)'}, as in this task.
+              </p>
+            )}
+
+            {mode === 'provider' && (
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Split large providers into equal chunks</label>
+                <Switch checked={balanceProviders} onCheckedChange={setBalanceProviders} />
+              </div>
+            )}
+
+            {needsAmount && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  {mode === 'file-count' ? 'Number of files' : mode === 'provider' ? 'Maximum rows per file' : 'Rows per file'}
+                </label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={amount}
+                  onChange={(e) => setAmount(Number(e.target.value))}
+                />
+              </div>
+            )}
+
+            {mode === 'column' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Column</label>
+                <Select value={column} onValueChange={setColumn}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select a column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columns.map(header => (
+                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">Leave out rows marked for deletion</label>
+              <Switch checked={excludeDeleted} onCheckedChange={setExcludeDeleted} />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">Download as a single ZIP</label>
+              <Switch checked={asZip} onCheckedChange={setAsZip} />
+            </div>
+
+            <div className="rounded border border-gray-200 max-h-40 overflow-y-auto text-xs">
+              {parts.length === 0 ? (
+                <p className="p-2 text-gray-500">No files to create with these settings</p>
+              ) : (
+                parts.map(part => (
+                  <div key={part.name} className="flex justify-between px-2 py-1 border-b border-gray-100 last:border-0">
+                    <span className="text-gray-700">{part.name}.csv</span>
+                    <span className="text-gray-500">{part.data.length} rows</span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            onClick={handleDownload}
+            disabled={!task || parts.length === 0 || isDownloading}
+            className="bg-hyperke-blue hover:bg-hyperke-darkBlue transition-colors"
+          >
+            {isDownloading ? 'Preparing...' : `Download ${parts.length} file${parts.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SplitCSVDialog;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Eye, HardDrive, Trash2, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { StoredTask, StorageUsage } from '@/utils/taskStorage';
+
+interface TaskHistoryProps {
+  storedTasks: StoredTask[];
+  storageUsage: StorageUsage | null;
+  openingTaskId: string | null;
+  onOpenTask: (taskId: string) => void;
+  onDeleteTask: (taskId: string) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+const formatTimestamp = (timestamp: string) => {
+  try {
+    return formatDistanceToNow(new Date(timestamp), { addSuffix: true });
+  } catch (error) {
+    return 'unknown time';
+  }
+};
+
+const TaskHistory: React.FC<TaskHistoryProps> = ({
+  storedTasks,
+  storageUsage,
+  openingTaskId,
+  onOpenTask,
+  onDeleteTask
+}) => {
+  const [taskToDelete, setTaskToDelete] = useState<StoredTask | null>(null);
+
+  if (storedTasks.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full mt-8 shadow-sm animate-fade-in">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl">History</CardTitle>
+          {storageUsage && storageUsage.quota > 0 && (
+            <div className="w-56 text-xs text-gray-500">
+              <div className="flex items-center mb-1">
+                <HardDrive className="h-3 w-3 mr-1" />
+                {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used
+              </div>
+              <Progress value={(storageUsage.usage / storageUsage.quota) * 100} className="h-1" />
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {storedTasks.map(storedTask => (
+            <div
+              key={storedTask.id}
+              className="bg-white rounded-lg border border-gray-200 p-4 shadow-sm flex items-center justify-between"
+            >
+              <div>
+                <h3 className="font-medium text-gray-900">{storedTask.fileName}</h3>
+                <p className="text-sm text-gray-500">
+                  Completed {formatTimestamp(storedTask.completedTime || storedTask.savedAt)}
+                  {storedTask.type && ` · ${storedTask.type}`}
+                </p>
+                <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                  {storedTask.stats.markedForDeletion > 0 && (
+                    <span className="flex items-center text-red-600 bg-red-50 px-2 py-1 rounded">
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      {storedTask.stats.markedForDeletion} marked for deletion
+                    </span>
+                  )}
+                  {storedTask.stats.withAlternativeContacts > 0 && (
+                    <span className="flex items-center text-green-600 bg-green-50 px-2 py-1 rounded">
+                      <Users className="h-3 w-3 mr-1" />
+                      {storedTask.stats.withAlternativeContacts} with alternative contacts
+                    </span>
+                  )}
+                  <span className="text-gray-600 bg-gray-100 px-2 py-1 rounded">
+                    {storedTask.stats.validRows} valid rows from {storedTask.originalRowCount || storedTask.totalRows} original
+                  </span>
+                </div>
+              </div>
+
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-hyperke-blue hover:bg-hyperke-blue/10"
+                  disabled={openingTaskId === storedTask.id}
+                  onClick={() => onOpenTask(storedTask.id)}
+                >
+                  <Eye className="h-4 w-4 mr-2" />
+                  {openingTaskId === storedTask.id ? 'Opening...' : 'Open'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-gray-500 hover:text-red-600"
+                  onClick={() => setTaskToDelete(storedTask)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={taskToDelete !== null} onOpenChange={(open) => !open && setTaskToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this run?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The stored result of {taskToDelete?.fileName} will be removed from this browser. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => {
+                onDeleteTask(taskToDelete.id);
+                setTaskToDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default TaskHistory;
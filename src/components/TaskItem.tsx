@@ -1,15 +1,17 @@
 
 import React from 'react';
-import { ProcessingTask } from '@/utils/csvProcessing';
+import { getResultStats, ProcessingTask } from '@/utils/csvProcessing';
 import { Progress } from '@/components/ui/progress';
-import { Clock, RefreshCw, CheckCircle, XCircle, Users, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Clock, RefreshCw, CheckCircle, XCircle, Users, Trash2, Ban } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 interface TaskItemProps {
   task: ProcessingTask;
+  onCancel: () => void;
 }
 
-const TaskItem: React.FC<TaskItemProps> = ({ task }) => {
+const TaskItem: React.FC<TaskItemProps> = ({ task, onCancel }) => {
   const formatTimestamp = (timestamp: string) => {
     try {
       return formatDistanceToNow(new Date(timestamp), { addSuffix: true });
@@ -18,19 +20,11 @@ const TaskItem: React.FC<TaskItemProps> = ({ task }) => {
     }
   };
   
-  // Calculate stats for marked for deletion rows
-  const markedForDeletionCount = task.result 
-    ? task.result.filter(row => row.to_be_deleted === 'true').length 
-    : 0;
-  
-  // Calculate stats for alternative contacts
-  const alternativeContactsCount = task.result 
-    ? task.result.filter(row => row.other_dm_name && row.other_dm_name.trim() !== '').length 
-    : 0;
-  
-  const validRowsCount = task.result 
-    ? task.result.filter(row => row.to_be_deleted !== 'true').length 
-    : 0;
+  // Calculate stats for rows marked for deletion, alternative contacts and valid rows
+  const stats = task.result ? getResultStats(task.result) : null;
+  const markedForDeletionCount = stats ? stats.markedForDeletion : 0;
+  const alternativeContactsCount = stats ? stats.withAlternativeContacts : 0;
+  const validRowsCount = stats ? stats.validRows : 0;
 
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-4 shadow-sm">
@@ -47,19 +41,39 @@ const TaskItem: React.FC<TaskItemProps> = ({ task }) => {
           {task.status === 'processing' && <RefreshCw className="h-5 w-5 text-blue-500 animate-spin" />}
           {task.status === 'complete' && <CheckCircle className="h-5 w-5 text-green-500" />}
           {task.status === 'error' && <XCircle className="h-5 w-5 text-red-500" />}
+          {task.status === 'cancelled' && <Ban className="h-5 w-5 text-gray-400" />}
           <span className="text-sm capitalize">
             {task.status === 'complete' ? 'Completed' : task.status}
           </span>
+          {(task.status === 'pending' || task.status === 'processing') && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 ml-2 text-gray-500 hover:text-red-600"
+              onClick={onCancel}
+            >
+              Cancel
+            </Button>
+          )}
         </div>
       </div>
       
       <Progress value={task.progress * 100} className="h-2 mb-2" />
       
       <div className="text-xs text-gray-600 flex items-center justify-between">
-        <span>{task.processedRows} of {task.totalRows} rows processed</span>
+        <span>
+          {task.processedRows} of {task.totalRows} rows processed
+          {task.status === 'processing' && task.stage && ` · ${task.stage}`}
+        </span>
         <span>{Math.round(task.progress * 100)}%</span>
       </div>
       
+      {task.lookupStats && (
+        <div className={`text-xs mt-1 ${task.lookupStats.failures > 0 ? 'text-amber-600' : 'text-gray-500'}`}>
+          {task.lookupStats.lookups} DNS lookups · {task.lookupStats.retries} retries · {task.lookupStats.failures} failed
+        </div>
+      )}
+      
       {task.status === 'complete' && task.result && (
         <div className="mt-3 text-xs">
           <div className="flex flex-wrap gap-2">
@@ -1,5 +1,5 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import Navbar from '@/components/Navbar';
@@ -7,16 +7,31 @@ import FileUpload from '@/components/FileUpload';
 import ColumnMapping from '@/components/ColumnMapping';
 import ProcessingTasks from '@/components/ProcessingTasks';
 import DataPreview from '@/components/DataPreview';
+import SplitCSVDialog from '@/components/SplitCSVDialog';
+import TaskHistory from '@/components/TaskHistory';
+import SettingsDialog from '@/components/SettingsDialog';
 import { 
   CSVData, 
-  CSVRow,  // Import CSVRow type
+  DEFAULT_TASK_OPTIONS,
   ProcessingTask, 
-  processDomainOnlyCSV, 
-  processSingleEmailCSV, 
-  processMultiEmailCSV, 
-  inferCSVType,
+  TaskOptions,
   excludedColumns 
 } from '@/utils/csvProcessing';
+import { isAbortError, runPipelineInWorker } from '@/utils/pipelineRunner';
+import { getResolverConfig, loadLookupSettings } from '@/utils/lookupSettings';
+import { loadProviderCatalogue } from '@/utils/providerCatalogue';
+import { loadEmailDomainLists } from '@/utils/emailDomainLists';
+import { loadRoleAccountGroups } from '@/utils/roleAccounts';
+import { DatasetHandle, getDatasetRows, releaseDataset } from '@/utils/datasetStore';
+import {
+  deleteStoredTask,
+  getStorageUsage,
+  listStoredTasks,
+  loadStoredTask,
+  saveTask,
+  StoredTask,
+  StorageUsage
+} from '@/utils/taskStorage';
 import { toast } from 'sonner';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -26,12 +41,18 @@ const Dashboard: React.FC = () => {
   
   const [tasks, setTasks] = useState<ProcessingTask[]>([]);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
-  const [csvData, setCsvData] = useState<CSVData>([]);
+  const [dataset, setDataset] = useState<DatasetHandle | null>(null);
   const [csvFileName, setCsvFileName] = useState('');
   const [csvFileType, setCsvFileType] = useState<'domain-only' | 'single-email' | 'multi-email' | null>(null);
   const [mappedColumns, setMappedColumns] = useState<Record<string, string>>({});
   const [showMapping, setShowMapping] = useState(false);
-  const [previewData, setPreviewData] = useState<CSVData | null>(null);
+  const [previewTaskId, setPreviewTaskId] = useState<string | null>(null);
+  const [showSplitter, setShowSplitter] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [storedTasks, setStoredTasks] = useState<StoredTask[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [openingTaskId, setOpeningTaskId] = useState<string | null>(null);
+  const taskControllers = useRef(new Map<string, AbortController>());
   
   useEffect(() => {
     if (!isAuthenticated) {
@@ -39,42 +60,65 @@ const Dashboard: React.FC = () => {
     }
   }, [isAuthenticated, navigate]);
   
+  const refreshHistory = useCallback(async () => {
+    try {
+      const [history, usage] = await Promise.all([listStoredTasks(), getStorageUsage()]);
+      setStoredTasks(history);
+      setStorageUsage(usage);
+    } catch (error) {
+      console.error('Error loading task history:', error);
+    }
+  }, []);
+  
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+  
   const handleReset = () => {
+    taskControllers.current.forEach(controller => controller.abort());
+    taskControllers.current.clear();
+    if (dataset) {
+      releaseDataset(dataset.id);
+    }
     setTasks([]);
     setCsvHeaders([]);
-    setCsvData([]);
+    setDataset(null);
     setCsvFileName('');
     setCsvFileType(null);
     setMappedColumns({});
     setShowMapping(false);
-    setPreviewData(null);
+    setPreviewTaskId(null);
     toast.info('Application state has been reset');
   };
   
   const handleFileUploaded = (
-    fileName: string, 
-    headers: string[], 
-    data: CSVData,
+    uploadedDataset: DatasetHandle,
     fileType: 'domain-only' | 'single-email' | 'multi-email' | 'unknown'
   ) => {
-    console.log(`File uploaded: ${fileName}, type: ${fileType}, rows: ${data.length}`);
+    console.log(`File uploaded: ${uploadedDataset.fileName}, type: ${fileType}, rows: ${uploadedDataset.rowCount}`);
     
     // Filter out excluded columns from headers
-    const filteredHeaders = headers.filter(header => 
+    const filteredHeaders = uploadedDataset.headers.filter(header => 
       !excludedColumns.includes(header.toLowerCase())
     );
     
+    // Running tasks keep their own reference to the rows, so the previous
+    // upload can be released as soon as a new one replaces it
+    if (dataset) {
+      releaseDataset(dataset.id);
+    }
+    
     setCsvHeaders(filteredHeaders);
-    setCsvData(data);
-    setCsvFileName(fileName);
+    setDataset(uploadedDataset);
+    setCsvFileName(uploadedDataset.fileName);
     
     setCsvFileType(fileType === 'unknown' ? null : fileType);
     setShowMapping(true);
-    setPreviewData(null);
+    setPreviewTaskId(null);
   };
   
-  const handleColumnsMapped = (mappedColumns: Record<string, string>) => {
-    console.log('Columns mapped:', mappedColumns);
+  const handleColumnsMapped = (mappedColumns: Record<string, string>, taskOptions: TaskOptions) => {
+    console.log('Columns mapped:', mappedColumns, taskOptions);
     setMappedColumns(mappedColumns);
     setShowMapping(false);
     
@@ -83,6 +127,11 @@ const Dashboard: React.FC = () => {
       return;
     }
     
+    if (!dataset) {
+      toast.error('Cannot process file: no data loaded');
+      return;
+    }
+    
     const taskId = uuidv4();
     const newTask: ProcessingTask = {
       id: taskId,
@@ -90,16 +139,20 @@ const Dashboard: React.FC = () => {
       uploadTime: new Date().toISOString(),
       status: 'pending',
       progress: 0,
-      totalRows: csvData.length,
+      totalRows: dataset.rowCount,
       processedRows: 0,
       type: csvFileType,
-      originalRowCount: csvData.length
+      originalRowCount: dataset.rowCount,
+      options: taskOptions
     };
     
     setTasks(prev => [...prev, newTask]);
+    taskControllers.current.set(taskId, new AbortController());
+    
+    const csvData = getDatasetRows(dataset);
     
     setTimeout(() => {
-      processCSV(taskId, mappedColumns);
+      processCSV(newTask, csvData, mappedColumns);
     }, 500);
   };
   
@@ -109,7 +162,28 @@ const Dashboard: React.FC = () => {
     ));
   };
   
-  const processCSV = async (taskId: string, mappedColumns: Record<string, string>) => {
+  const persistTask = async (task: ProcessingTask) => {
+    try {
+      await saveTask(task);
+      await refreshHistory();
+    } catch (error) {
+      console.error('Error saving task:', error);
+      toast.error('Could not save this run to history', {
+        description: 'Browser storage may be full. Delete old runs to free up space.'
+      });
+    }
+  };
+  
+  const processCSV = async (task: ProcessingTask, csvData: CSVData, mappedColumns: Record<string, string>) => {
+    const taskId = task.id;
+    const controller = taskControllers.current.get(taskId);
+    
+    if (!controller || controller.signal.aborted) {
+      // Cancelled while pending: the controller is not needed any more
+      taskControllers.current.delete(taskId);
+      return;
+    }
+    
     updateTaskProgress(taskId, { 
       status: 'processing',
       progress: 0,
@@ -117,95 +191,128 @@ const Dashboard: React.FC = () => {
     });
     
     try {
-      let result: CSVData = [];
-      
-      if (csvFileType === 'domain-only') {
-        result = await processDomainOnlyCSV(
-          csvData,
-          mappedColumns['website'],
-          (processed) => {
-            updateTaskProgress(taskId, { 
-              progress: processed / csvData.length, 
-              processedRows: processed,
-            });
-          }
-        );
-      } else if (csvFileType === 'single-email') {
-        result = await processSingleEmailCSV(
-          csvData,
-          mappedColumns['email'],
-          mappedColumns['website'] || '',
-          mappedColumns['company'] || '',
-          (processed, total, stage) => {
-            console.log(`Processing stage: ${stage}, ${processed}/${total}`);
-            const progress = processed / total;
-            updateTaskProgress(taskId, { 
-              progress, 
-              processedRows: processed,
-              totalRows: total
-            });
-          }
-        );
-      } else if (csvFileType === 'multi-email') {
-        result = await processMultiEmailCSV(
-          csvData,
-          mappedColumns,
-          (processed, total, stage) => {
-            console.log(`Processing stage: ${stage}, ${processed}/${total}`);
-            const progress = processed / total;
-            updateTaskProgress(taskId, { 
-              progress, 
-              processedRows: processed,
-              totalRows: total
-            });
-          }
-        );
-      }
-      
-      console.log(`Processing complete: ${result.length} rows in final result (from ${csvData.length} original rows)`);
-      
-      // Ensure result has other_dm fields in each row and filter out excluded columns
-      result = result.map(row => {
-        const filteredRow: CSVRow = {};
-        
-        // Copy only non-excluded columns
-        Object.keys(row).forEach(key => {
-          if (!excludedColumns.includes(key.toLowerCase())) {
-            filteredRow[key] = row[key];
-          }
-        });
-        
-        // Ensure other_dm fields exist
-        filteredRow.other_dm_name = row.other_dm_name !== undefined ? row.other_dm_name : '';
-        filteredRow.other_dm_email = row.other_dm_email !== undefined ? row.other_dm_email : '';
-        filteredRow.other_dm_title = row.other_dm_title !== undefined ? row.other_dm_title : '';
-        
-        return filteredRow;
-      });
+      const lookupSettings = loadLookupSettings();
+      const { result, stageReports } = await runPipelineInWorker(
+        task.type,
+        csvData,
+        mappedColumns,
+        lookupSettings,
+        getResolverConfig(lookupSettings),
+        loadProviderCatalogue(),
+        task.options || DEFAULT_TASK_OPTIONS,
+        loadEmailDomainLists(),
+        loadRoleAccountGroups(),
+        ({ processed, total, stage, lookupStats }) => {
+          updateTaskProgress(taskId, { 
+            progress: total > 0 ? processed / total : 0, 
+            processedRows: processed,
+            totalRows: total,
+            stage,
+            lookupStats
+          });
+        },
+        controller.signal
+      );
       
-      updateTaskProgress(taskId, { 
+      const completion: Partial<ProcessingTask> = { 
         status: 'complete',
         progress: 1,
         processedRows: result.length,
         totalRows: csvData.length,
+        stage: undefined,
+        stageReports,
+        completedTime: new Date().toISOString(),
         result,
         mappedColumns,
         originalRowCount: csvData.length
-      });
+      };
+      updateTaskProgress(taskId, completion);
       
-      setPreviewData(result);
+      setPreviewTaskId(taskId);
+      persistTask({ ...task, ...completion });
       
       toast.success(`CSV processing completed. Processed ${csvData.length} rows, resulted in ${result.length} rows after cleaning.`);
     } catch (error) {
-      console.error('Error processing CSV:', error);
-      updateTaskProgress(taskId, { status: 'error' });
-      toast.error('An error occurred while processing the CSV');
+      if (isAbortError(error)) {
+        updateTaskProgress(taskId, { status: 'cancelled', stage: undefined });
+        toast.info('Processing cancelled');
+      } else {
+        console.error('Error processing CSV:', error);
+        updateTaskProgress(taskId, { status: 'error', stage: undefined });
+        toast.error('An error occurred while processing the CSV', {
+          description: error instanceof Error ? error.message : undefined
+        });
+      }
+    } finally {
+      taskControllers.current.delete(taskId);
     }
   };
   
+  // Edits made from the preview (e.g. accepted email suggestions) replace the stored result
+  const handleUpdateResult = (task: ProcessingTask, result: CSVData) => {
+    updateTaskProgress(task.id, { result });
+    persistTask({ ...task, result });
+  };
+  
+  const handleCancelTask = (taskId: string) => {
+    const controller = taskControllers.current.get(taskId);
+    if (!controller) return;
+    
+    controller.abort();
+    
+    // Pending tasks have not reached the worker yet
+    setTasks(prev => prev.map(task => 
+      task.id === taskId && task.status === 'pending' ? { ...task, status: 'cancelled' } : task
+    ));
+  };
+  
+  const handleOpenStoredTask = async (taskId: string) => {
+    if (tasks.some(task => task.id === taskId && task.result)) {
+      setPreviewTaskId(taskId);
+      return;
+    }
+    
+    setOpeningTaskId(taskId);
+    try {
+      const storedTask = await loadStoredTask(taskId);
+      if (!storedTask) {
+        toast.error('This run is no longer stored');
+        await refreshHistory();
+        return;
+      }
+      
+      setTasks(prev => [...prev.filter(task => task.id !== taskId), storedTask]);
+      setPreviewTaskId(taskId);
+    } catch (error) {
+      console.error('Error loading stored task:', error);
+      toast.error('Could not open this run');
+    } finally {
+      setOpeningTaskId(null);
+    }
+  };
+  
+  const handleDeleteStoredTask = async (taskId: string) => {
+    try {
+      await deleteStoredTask(taskId);
+      toast.success('Run deleted from history');
+    } catch (error) {
+      console.error('Error deleting stored task:', error);
+      toast.error('Could not delete this run');
+    }
+    await refreshHistory();
+  };
+  
+  const previewTask = tasks.find(task => task.id === previewTaskId);
+  
   return (
     <div className="min-h-screen bg-gradient-to-b from-white to-hyperke-gray pb-16">
-      <Navbar onReset={handleReset} />
+      <Navbar
+        onReset={handleReset}
+        onSplitCSV={() => setShowSplitter(true)}
+        onOpenSettings={() => setShowSettings(true)}
+      />
+      <SplitCSVDialog open={showSplitter} onOpenChange={setShowSplitter} tasks={tasks} />
+      <SettingsDialog open={showSettings} onOpenChange={setShowSettings} />
       
       <div className="max-w-7xl mx-auto px-4 pt-24">
         <div className="grid grid-cols-1 gap-8">
@@ -225,11 +332,22 @@ const Dashboard: React.FC = () => {
             </div>
           )}
           
-          <ProcessingTasks tasks={tasks} />
+          <ProcessingTasks tasks={tasks} onCancelTask={handleCancelTask} />
           
-          {previewData && (
-            <DataPreview data={previewData} fileName={csvFileName} />
+          {previewTask && previewTask.result && (
+            <DataPreview
+              task={previewTask}
+              onUpdateResult={(result) => handleUpdateResult(previewTask, result)}
+            />
           )}
+          
+          <TaskHistory
+            storedTasks={storedTasks}
+            storageUsage={storageUsage}
+            openingTaskId={openingTaskId}
+            onOpenTask={handleOpenStoredTask}
+            onDeleteTask={handleDeleteStoredTask}
+          />
         </div>
       </div>
     </div>
@@ -23,12 +23,3 @@ export const validatePassword = (password: string): boolean => {
 export const getDomainFromEmail = (email: string): string => {
   return email.split('@')[1];
 };
-
-/**
- * Checks if an email is a generic email (like info@, contact@, etc.)
- */
-export const isGenericEmail = (email: string): boolean => {
-  const genericPrefixes = ['info', 'contact', 'hello', 'support', 'admin', 'sales', 'marketing', 'help', 'service'];
-  const prefix = email.split('@')[0].toLowerCase();
-  return genericPrefixes.includes(prefix);
-};
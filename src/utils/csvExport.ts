@@ -0,0 +1,208 @@
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+import { strToU8, zipSync } from 'fflate';
+import {
+  CSVData,
+  CSVRow,
+  dataToCSV,
+  excludedColumns,
+  getResultStats,
+  orderHeaders,
+  ProcessingTask
+} from './csvProcessing';
+
+/**
+ * Collect the headers of every row plus the processing columns, without excluded columns
+ */
+export const getExportHeaders = (data: CSVData): string[] => {
+  // Get all headers from the data
+  const allHeaders = new Set<string>();
+
+  // First collect all unique headers across all rows
+  data.forEach(row => {
+    Object.keys(row).forEach(key => allHeaders.add(key));
+  });
+
+  // Add critical fields if they don't exist
+  ['other_dm_name', 'other_dm_email', 'other_dm_title', 'to_be_deleted', 'deletion_reason'].forEach(field => {
+    allHeaders.add(field);
+  });
+
+  // Filter out excluded columns
+  return Array.from(allHeaders).filter(header =>
+    !excludedColumns.includes(header.toLowerCase())
+  );
+};
+
+/**
+ * Make sure each row has a value for every header and nothing else
+ */
+const toExportRows = (headers: string[], data: CSVData): CSVData => {
+  return data.map(row => {
+    const newRow: CSVRow = {};
+    // Only include non-excluded headers in each row
+    headers.forEach(header => {
+      newRow[header] = row[header] !== undefined ? row[header] : '';
+    });
+    return newRow;
+  });
+};
+
+/**
+ * Hand a blob to the browser as a file download
+ */
+export const triggerDownload = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Replace the extension of a file name
+ */
+export const withExtension = (fileName: string, extension: string): string => {
+  return `${fileName.replace(/\.[^./]+$/, '')}.${extension}`;
+};
+
+/**
+ * Build the CSV text for an export, optionally leaving out some columns
+ */
+export const buildCSV = (data: CSVData, omitColumns: string[] = []): string => {
+  const filteredHeaders = getExportHeaders(data).filter(header => !omitColumns.includes(header));
+  return dataToCSV(filteredHeaders, toExportRows(filteredHeaders, data));
+};
+
+/**
+ * Save CSV data as a downloadable file - modified to handle to_be_deleted column
+ */
+export const downloadCSV = (data: CSVData, filename: string): void => {
+  if (!data.length) {
+    toast.error('No data to download');
+    return;
+  }
+
+  const csvContent = buildCSV(data);
+
+  // Create a blob and download link
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  triggerDownload(blob, filename || 'download.csv');
+
+  toast.success('CSV downloaded successfully');
+};
+
+/**
+ * Group removed rows by deletion reason, largest group first
+ */
+export const groupByDeletionReason = (removed: CSVData): [string, CSVData][] => {
+  const groups = new Map<string, CSVData>();
+
+  removed.forEach(row => {
+    const reason = row.deletion_reason || 'No reason recorded';
+    if (!groups.has(reason)) {
+      groups.set(reason, []);
+    }
+    groups.get(reason).push(row);
+  });
+
+  return Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length);
+};
+
+/**
+ * Save processed data as a workbook with "Clean", "Removed" and "Summary" sheets
+ */
+export const downloadXLSX = (data: CSVData, filename: string, originalRowCount?: number): void => {
+  if (!data.length) {
+    toast.error('No data to download');
+    return;
+  }
+
+  const headers = orderHeaders(getExportHeaders(data));
+  const rows = toExportRows(headers, data);
+
+  const clean = rows.filter(row => row.to_be_deleted !== 'true');
+  const reasonGroups = groupByDeletionReason(rows.filter(row => row.to_be_deleted === 'true'));
+  const removed = reasonGroups.flatMap(([, groupRows]) => groupRows);
+
+  const stats = getResultStats(data);
+  const summary: (string | number)[][] = [
+    ['Metric', 'Count'],
+    ['Original rows', originalRowCount ?? data.length],
+    ['Processed rows', stats.totalRows],
+    ['Valid rows', stats.validRows],
+    ['Marked for deletion', stats.markedForDeletion],
+    ['With alternative contacts', stats.withAlternativeContacts],
+    [],
+    ['Deletion reason', 'Rows'],
+    ...reasonGroups.map(([reason, groupRows]) => [reason, groupRows.length])
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(clean, { header: headers }), 'Clean');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(removed, { header: headers }), 'Removed');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summary), 'Summary');
+
+  XLSX.writeFile(workbook, filename || 'download.xlsx', { compression: true });
+
+  toast.success('Workbook downloaded successfully');
+};
+
+/**
+ * Describe a completed run for the report.json in the ZIP bundle
+ */
+export const buildRunReport = (task: ProcessingTask) => {
+  const result = task.result || [];
+  const stats = getResultStats(result);
+  const reasonGroups = groupByDeletionReason(result.filter(row => row.to_be_deleted === 'true'));
+
+  return {
+    fileName: task.fileName,
+    pipelineType: task.type,
+    mappedColumns: task.mappedColumns || {},
+    uploadedAt: task.uploadTime,
+    completedAt: task.completedTime,
+    generatedAt: new Date().toISOString(),
+    rowCounts: {
+      original: task.originalRowCount ?? task.totalRows,
+      processed: stats.totalRows,
+      clean: stats.validRows,
+      removed: stats.markedForDeletion,
+      withAlternativeContacts: stats.withAlternativeContacts
+    },
+    stages: task.stageReports || [],
+    deletionReasons: reasonGroups.map(([reason, rows]) => ({ reason, rows: rows.length }))
+  };
+};
+
+/**
+ * Save a ZIP bundle with clean.csv (kept rows), removed.csv (rows marked for
+ * deletion, with reasons) and report.json describing the run
+ */
+export const downloadZIP = (task: ProcessingTask, filename: string): void => {
+  const data = task.result || [];
+  if (!data.length) {
+    toast.error('No data to download');
+    return;
+  }
+
+  const clean = data.filter(row => row.to_be_deleted !== 'true');
+  const removed = data.filter(row => row.to_be_deleted === 'true');
+
+  const zipped = zipSync({
+    // The deletion columns carry no information for the kept rows
+    'clean.csv': strToU8(buildCSV(clean, ['to_be_deleted', 'deletion_reason'])),
+    'removed.csv': strToU8(buildCSV(removed)),
+    'report.json': strToU8(JSON.stringify(buildRunReport(task), null, 2))
+  });
+
+  triggerDownload(new Blob([zipped], { type: 'application/zip' }), filename || 'download.zip');
+
+  toast.success('ZIP bundle downloaded successfully');
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createCSVRowParser, normalizeHeaders, parseCSVString } from './csvParser';
+
+describe('parseCSVString', () => {
+  it('keeps line breaks and escaped quotes inside quoted fields', () => {
+    const result = parseCSVString('name,description\r\nAcme,"Line one\r\nline ""two"""\r\nBeta,plain\r\n');
+
+    expect(result.errors).toEqual([]);
+    expect(result.data).toEqual([
+      { name: 'Acme', description: 'Line one\r\nline "two"' },
+      { name: 'Beta', description: 'plain' },
+    ]);
+  });
+
+  it('tolerates trailing delimiters and skips blank lines', () => {
+    const result = parseCSVString('name,email,\nJane,jane@acme.com,\n\nJohn,john@acme.com\n');
+
+    expect(result.headers).toEqual(['name', 'email']);
+    expect(result.data).toHaveLength(2);
+    expect(result.errorCount).toBe(0);
+  });
+
+  it('strips a byte order mark from the first header', () => {
+    expect(parseCSVString('\uFEFFname,email\nJane,jane@acme.com').headers).toEqual(['name', 'email']);
+  });
+
+  it('reports rows with the wrong number of fields with their line number', () => {
+    const result = parseCSVString('name,email\n"Jane\nDoe",jane@acme.com\nJohn\n');
+
+    expect(result.data).toHaveLength(1);
+    expect(result.errors).toEqual([{ line: 4, message: 'Expected 2 fields but found 1' }]);
+  });
+
+  it('reports garbage after a closing quote and unterminated quotes', () => {
+    const result = parseCSVString('name,email\n"Jane"x,jane@acme.com\nJohn,"john@acme.com');
+
+    expect(result.data).toEqual([]);
+    expect(result.errors.map(error => error.line)).toEqual([2, 3]);
+  });
+
+  it('keeps every column when headers are blank or repeated', () => {
+    const result = parseCSVString('email,,email\na@acme.com,x,b@acme.com\n');
+
+    expect(result.headers).toEqual(['email', 'column_2', 'email_2']);
+    expect(result.data).toEqual([{ email: 'a@acme.com', column_2: 'x', email_2: 'b@acme.com' }]);
+  });
+
+  it('uses the given delimiter and quote character', () => {
+    const result = parseCSVString("name;note\n'Acme; Inc';'it''s'\n", { delimiter: ';', quote: "'" });
+
+    expect(result.data).toEqual([{ name: 'Acme; Inc', note: "it's" }]);
+  });
+});
+
+describe('createCSVRowParser', () => {
+  it('parses records split across chunk boundaries', () => {
+    const rows: Record<string, string>[] = [];
+    const parser = createCSVRowParser(row => rows.push(row));
+
+    ['na', 'me,notes\r', '\nAcme,"multi', '\nline"\r\n'].forEach(chunk => parser.push(chunk));
+    parser.finish();
+
+    expect(rows).toEqual([{ name: 'Acme', notes: 'multi\nline' }]);
+    expect(parser.getErrorCount()).toBe(0);
+  });
+});
+
+describe('normalizeHeaders', () => {
+  it('does not reuse a suffix that is already a header', () => {
+    expect(normalizeHeaders(['a', 'a', 'a_2', ' '])).toEqual(['a', 'a_2', 'a_2_2', 'column_4']);
+  });
+});
@@ -0,0 +1,263 @@
+// RFC 4180 CSV parsing primitives.
+// Kept free of UI imports so the same code can run inside web workers.
+
+export type CSVParseError = {
+  line: number; // 1-based physical line where the offending record starts
+  message: string;
+};
+
+export type CSVParseOptions = {
+  delimiter?: string;
+  quote?: string;
+};
+
+export type CSVParseResult = {
+  headers: string[];
+  data: Record<string, string>[];
+  errors: CSVParseError[];
+  errorCount: number;
+};
+
+/**
+ * Maximum number of errors kept in memory; the total is still counted
+ */
+export const MAX_REPORTED_ERRORS = 1000;
+
+type RecordHandler = (fields: string[], line: number, malformed: boolean) => void;
+type ErrorHandler = (error: CSVParseError) => void;
+
+// Parser states
+const FIELD_START = 0;
+const UNQUOTED = 1;
+const QUOTED = 2;
+const QUOTE_IN_QUOTED = 3; // saw a quote inside a quoted field: escaped quote or closing quote
+const AFTER_CLOSING_QUOTE = 4; // garbage between a closing quote and the next delimiter
+
+/**
+ * Create an incremental record reader. Text can be pushed in arbitrary chunks;
+ * quoted fields may span lines and chunk boundaries. Records that produced an
+ * error are still handed to `onRecord` with `malformed` set.
+ */
+export const createRecordReader = (
+  onRecord: RecordHandler,
+  onError: ErrorHandler,
+  options: CSVParseOptions = {}
+) => {
+  const delimiter = options.delimiter || ',';
+  const quote = options.quote || '"';
+
+  let state = FIELD_START;
+  let field = '';
+  let fields: string[] = [];
+  let line = 1;
+  let recordLine = 1;
+  let prevChar = '';
+  let malformed = false;
+
+  const reportError = (message: string, errorLine: number) => {
+    // One error per record is enough to explain why it was skipped
+    if (!malformed) {
+      onError({ line: errorLine, message });
+      malformed = true;
+    }
+  };
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+  };
+
+  const endRecord = () => {
+    endField();
+    // Skip blank lines entirely
+    if (!(fields.length === 1 && fields[0].trim() === '')) {
+      onRecord(fields, recordLine, malformed);
+    }
+    fields = [];
+    malformed = false;
+    state = FIELD_START;
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      const afterCR = prevChar === '\r';
+      prevChar = char;
+
+      if (state === QUOTED) {
+        if (char === quote) {
+          state = QUOTE_IN_QUOTED;
+        } else {
+          // Count \r\n, \n and lone \r as one line break each
+          if (char === '\r' || (char === '\n' && !afterCR)) line++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (state === QUOTE_IN_QUOTED) {
+        if (char === quote) {
+          // Escaped quote ("")
+          field += quote;
+          state = QUOTED;
+          continue;
+        }
+        state = AFTER_CLOSING_QUOTE;
+        // Fall through to delimiter / newline handling below
+      }
+
+      if (char === delimiter) {
+        endField();
+        state = FIELD_START;
+        continue;
+      }
+
+      if (char === '\n' && afterCR && state === FIELD_START && fields.length === 0 && field === '') {
+        // Second half of a CRLF that already ended the record
+        continue;
+      }
+
+      if (char === '\n' || char === '\r') {
+        endRecord();
+        line++;
+        recordLine = line;
+        continue;
+      }
+
+      if (state === FIELD_START) {
+        if (char === quote) {
+          state = QUOTED;
+        } else {
+          field += char;
+          state = UNQUOTED;
+        }
+      } else if (state === UNQUOTED) {
+        // A stray quote inside an unquoted field is kept literally
+        field += char;
+      } else if (state === AFTER_CLOSING_QUOTE) {
+        if (char.trim() !== '') {
+          reportError(`Unexpected character "${char}" after closing quote`, line);
+        }
+        field += char;
+      }
+    }
+  };
+
+  const finish = () => {
+    if (state === QUOTED) {
+      reportError('Unterminated quoted field at end of file', recordLine);
+    }
+    if (state !== FIELD_START || field !== '' || fields.length > 0) {
+      endRecord();
+    }
+  };
+
+  return { push, finish };
+};
+
+/**
+ * Make header names unique and non-empty: blank headers become "column_N"
+ * and repeats get a "_2", "_3" suffix, so no column overwrites another
+ */
+export const normalizeHeaders = (rawHeaders: string[]): string[] => {
+  const used = new Set<string>();
+
+  return rawHeaders.map((header, index) => {
+    const base = header.trim() || `column_${index + 1}`;
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}_${suffix}`;
+    }
+    used.add(name);
+    return name;
+  });
+};
+
+/**
+ * Create an incremental row builder on top of the record reader. The first
+ * record becomes the header row; every later record is checked against it.
+ */
+export const createCSVRowParser = (
+  onRow: (row: Record<string, string>) => void,
+  options: CSVParseOptions = {}
+) => {
+  let headers: string[] | null = null;
+  const errors: CSVParseError[] = [];
+  let errorCount = 0;
+
+  const reportError = (error: CSVParseError) => {
+    errorCount++;
+    if (errors.length < MAX_REPORTED_ERRORS) {
+      errors.push(error);
+    }
+  };
+
+  const handleRecord = (fields: string[], line: number, malformed: boolean) => {
+    if (!headers) {
+      const headerFields = fields.map(header => header.trim());
+      // Strip a byte order mark glued onto the first header
+      if (headerFields.length > 0) {
+        headerFields[0] = headerFields[0].replace(/^\uFEFF/, '');
+      }
+      // Drop empty trailing headers produced by a trailing delimiter
+      while (headerFields.length > 1 && headerFields[headerFields.length - 1] === '') {
+        headerFields.pop();
+      }
+      headers = normalizeHeaders(headerFields);
+      return;
+    }
+
+    // Already reported by the record reader
+    if (malformed) return;
+
+    let rowFields = fields;
+
+    // Tolerate trailing delimiters: extra fields that are all empty
+    if (rowFields.length > headers.length &&
+        rowFields.slice(headers.length).every(value => value.trim() === '')) {
+      rowFields = rowFields.slice(0, headers.length);
+    }
+
+    if (rowFields.length !== headers.length) {
+      reportError({
+        line,
+        message: `Expected ${headers.length} fields but found ${rowFields.length}`
+      });
+      return;
+    }
+
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = rowFields[index].trim();
+    });
+    onRow(row);
+  };
+
+  const reader = createRecordReader(handleRecord, reportError, options);
+
+  return {
+    push: reader.push,
+    finish: reader.finish,
+    getHeaders: () => headers || [],
+    getErrors: () => errors,
+    getErrorCount: () => errorCount
+  };
+};
+
+/**
+ * Parse a complete CSV string
+ */
+export const parseCSVString = (csvString: string, options: CSVParseOptions = {}): CSVParseResult => {
+  const data: Record<string, string>[] = [];
+  const parser = createCSVRowParser(row => data.push(row), options);
+
+  parser.push(csvString);
+  parser.finish();
+
+  return {
+    headers: parser.getHeaders(),
+    data,
+    errors: parser.getErrors(),
+    errorCount: parser.getErrorCount()
+  };
+};
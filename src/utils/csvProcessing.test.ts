@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  acceptSuggestedEmails,
+  classifyMXRecords,
+  cleanWebsiteUrl,
+  DEFAULT_TASK_OPTIONS,
+  getGroupingDomain,
+  getMXHosts,
+  getRootDomain,
+  lookupMX,
+  processDomainTypos,
+  processMXBatch
+} from './csvProcessing';
+import { createFixtureResolver, DNSLookupError, DNSResolver } from './dnsResolver';
+import { DEFAULT_EMAIL_DOMAIN_LISTS } from './emailDomainLists';
+import { DEFAULT_LOOKUP_SETTINGS } from './lookupSettings';
+import { DEFAULT_ROLE_ACCOUNT_GROUPS } from './roleAccounts';
+
+beforeEach(() => {
+  // The pipeline logs every lookup
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+const fixtureResolver = createFixtureResolver({
+  'acme.com': ['20 alt1.aspmx.l.google.com.', '10 aspmx.l.google.com.'],
+  'beta.com': ['mx.beta-hosting.net'],
+  'gamma.com': ['10 mx1.pphosted.com.', '20 gamma-com.mail.protection.outlook.com.'],
+  'nomail.com': [],
+  'nullmx.com': ['0 .'],
+});
+
+describe('getMXHosts', () => {
+  it('orders hosts by preference and skips malformed records', () => {
+    expect(getMXHosts(['20 b.mx.com.', '10 a.mx.com.', 'c.mx.com', '10'])).toEqual(['c.mx.com', 'a.mx.com', 'b.mx.com']);
+  });
+});
+
+describe('classifyMXRecords', () => {
+  it('maps known hosts to providers and gateways', () => {
+    expect(classifyMXRecords(['10 aspmx.l.google.com.'])).toEqual({ provider: 'google', gateway: '' });
+    expect(classifyMXRecords(['mx.beta-hosting.net'])).toEqual({ provider: 'other-hosted', gateway: '' });
+    expect(classifyMXRecords(['10 mx1.pphosted.com.', '20 x.mail.protection.outlook.com.']))
+      .toEqual({ provider: 'microsoft', gateway: 'proofpoint' });
+  });
+
+  it('treats no records and a null MX as no-mx', () => {
+    expect(classifyMXRecords([]).provider).toBe('no-mx');
+    expect(classifyMXRecords(['0 .']).provider).toBe('no-mx');
+  });
+});
+
+describe('lookupMX', () => {
+  it('reports resolved, NXDOMAIN and failed lookups', async () => {
+    const resolved = await lookupMX('acme.com', fixtureResolver, DEFAULT_LOOKUP_SETTINGS);
+    expect(resolved).toMatchObject({ status: 'resolved', provider: 'google' });
+
+    const missing = await lookupMX('missing.com', fixtureResolver, DEFAULT_LOOKUP_SETTINGS);
+    expect(missing).toMatchObject({ status: 'resolved', provider: 'nxdomain' });
+
+    const failingResolver: DNSResolver = {
+      name: 'failing',
+      cacheable: false,
+      supportsTXT: false,
+      resolve: async () => {
+        throw new DNSLookupError('DNS query failed with HTTP 503', true);
+      }
+    };
+    const failed = await lookupMX('acme.com', failingResolver, DEFAULT_LOOKUP_SETTINGS);
+    expect(failed).toMatchObject({ status: 'failed', provider: 'lookup-failed', error: 'DNS query failed with HTTP 503' });
+    expect(failed.expiresAt).toBeLessThan(resolved.expiresAt);
+  });
+});
+
+describe('processMXBatch', () => {
+  const rows = () => [
+    { email: 'jane@acme.com' },
+    { email: 'john@beta.com' },
+    { email: 'ann@nomail.com' },
+    { email: 'bob@nullmx.com' },
+    { email: 'eve@missing.com' },
+    { email: 'not-an-email' },
+  ];
+
+  it('writes mx_provider and mx_records and flags dead domains', async () => {
+    const result = await processMXBatch(rows(), 'email', () => {}, { resolver: fixtureResolver });
+
+    expect(result.map(row => row['mx_provider'])).toEqual(['google', 'other-hosted', 'no-mx', 'no-mx', 'nxdomain', '']);
+    expect(result[0]['mx_records']).toBe('aspmx.l.google.com; alt1.aspmx.l.google.com');
+    expect(result.map(row => row['deletion_reason'])).toEqual([
+      undefined,
+      undefined,
+      'Email domain has no MX records',
+      'Email domain has no MX records',
+      'Email domain does not exist (NXDOMAIN)',
+      undefined,
+    ]);
+  });
+
+  it('leaves dead domains in place when flagging is turned off', async () => {
+    const result = await processMXBatch(rows(), 'email', () => {}, {
+      resolver: fixtureResolver,
+      lookupSettings: { ...DEFAULT_LOOKUP_SETTINGS, flagDeadDomains: false }
+    });
+
+    expect(result.some(row => row['to_be_deleted'] === 'true')).toBe(false);
+  });
+});
+
+describe('cleanWebsiteUrl', () => {
+  it('keeps the host without www, port, path or query', () => {
+    expect(cleanWebsiteUrl('HTTPS://www.Shop.Acme.co.uk:8080/About?q=1')).toBe('shop.acme.co.uk');
+    expect(cleanWebsiteUrl('www2.acme.com/contact')).toBe('acme.com');
+    expect(cleanWebsiteUrl('acme.com')).toBe('acme.com');
+    expect(cleanWebsiteUrl('')).toBe('');
+  });
+
+  it('returns internationalised hosts in Unicode', () => {
+    expect(cleanWebsiteUrl('https://xn--mnchen-bau-9db.de')).toBe('münchen-bau.de');
+  });
+});
+
+describe('getRootDomain', () => {
+  it('returns the registrable domain from the Public Suffix List', () => {
+    expect(getRootDomain('https://shop.acme.co.uk/path')).toBe('acme.co.uk');
+    expect(getRootDomain('blog.acme.com')).toBe('acme.com');
+    expect(getRootDomain('www.acme.com.au')).toBe('acme.com.au');
+  });
+
+  it('falls back to the host when there is no known suffix', () => {
+    expect(getRootDomain('http://192.168.1.10:8080/')).toBe('192.168.1.10');
+  });
+});
+
+describe('getGroupingDomain', () => {
+  const row = { cleaned_website: 'shop.acme.co.uk', root_domain: 'acme.co.uk' };
+
+  it('follows the domain grouping option', () => {
+    expect(getGroupingDomain(row, 'website')).toBe('shop.acme.co.uk');
+    expect(getGroupingDomain(row, 'root-domain')).toBe('acme.co.uk');
+    expect(getGroupingDomain({}, 'root-domain')).toBe('');
+  });
+});
+
+describe('processDomainTypos', () => {
+  it('suggests corrections only for domains that cannot receive mail', async () => {
+    const rows = await processMXBatch([
+      { email: 'jane@gmial.com' },
+      { email: 'john@acme.con' },
+      { email: 'ann@hotmart.com' },
+      { email: 'bob@acme.com' },
+    ], 'email', () => {}, { resolver: createFixtureResolver({ 'acme.com': ['10 aspmx.l.google.com.'], 'hotmart.com': [] }) });
+    const result = processDomainTypos(rows, 'email', DEFAULT_EMAIL_DOMAIN_LISTS);
+
+    expect(result.map(row => row['suggested_email'])).toEqual(['jane@gmail.com', 'john@acme.com', '', '']);
+    expect(result[0]['review_reason']).toBe('Possible typo in email domain: did you mean gmail.com?');
+    expect(result[3]['review_reason']).toBeUndefined();
+  });
+});
+
+describe('acceptSuggestedEmails', () => {
+  const buildRows = async () => {
+    const rows = await processMXBatch([
+      { email: 'jane@gmial.com', website: '', other_dm_email: '' },
+      { email: 'info@acme.con', website: 'acme.com', other_dm_email: 'jane@gmial.com' },
+      { email: 'john@acme.com', website: 'acme.com', other_dm_email: '' },
+      { email: 'john@acme.con', website: 'acme.com', other_dm_email: '' },
+    ], 'email', () => {}, { resolver: createFixtureResolver({ 'acme.com': ['10 mx.acme.com'] }) });
+    return processDomainTypos(rows, 'email', DEFAULT_EMAIL_DOMAIN_LISTS);
+  };
+
+  const accept = (rows: Record<string, string>[]) => acceptSuggestedEmails(
+    rows, 'email', 'website', DEFAULT_TASK_OPTIONS, DEFAULT_EMAIL_DOMAIN_LISTS, DEFAULT_ROLE_ACCOUNT_GROUPS
+  );
+
+  it('rewrites emails and drops notes about the mistyped domain', async () => {
+    const result = accept(await buildRows());
+
+    expect(result.map(row => row['email'])).toEqual(['jane@gmail.com', 'info@acme.com', 'john@acme.com', 'john@acme.com']);
+    expect(result.every(row => row['suggested_email'] === '')).toBe(true);
+    expect(result[0]).toMatchObject({ to_be_deleted: 'false', deletion_reason: '', mx_provider: 'not-looked-up', email_type: 'free' });
+    expect(result[0]['review_reason']).not.toContain('Possible typo');
+  });
+
+  it('keeps corrected rows flagged for review until the file is processed again', async () => {
+    const result = accept(await buildRows());
+
+    [result[0], result[1]].forEach(row => {
+      expect(row['review_reason']).toContain('Email corrected from suggestion');
+    });
+    expect(result[2]['review_reason']).toBeUndefined();
+  });
+
+  it('keeps the existing row when a correction creates a duplicate', async () => {
+    const result = accept(await buildRows());
+
+    expect(result[2]['to_be_deleted']).not.toBe('true');
+    expect(result[3]).toMatchObject({ to_be_deleted: 'true', deletion_reason: 'Duplicate email (keeping existing row)' });
+    expect(result[3]['review_reason'] || '').not.toContain('Email corrected from suggestion');
+  });
+
+  it('reclassifies corrected rows and moves other_dm to the new address', async () => {
+    const result = accept(await buildRows());
+
+    expect(result[1]['is_role_account']).toBe('true');
+    expect(result[1]['other_dm_email']).toBe('jane@gmail.com');
+  });
+
+  it('does not change the rows it was given', async () => {
+    const rows = await buildRows();
+    accept(rows);
+
+    expect(rows[0]['email']).toBe('jane@gmial.com');
+  });
+});
@@ -1,5 +1,29 @@
-import { toast } from 'sonner';
-import { getDomainFromEmail, isGenericEmail } from './auth';
+import { getDomain, getDomainWithoutSuffix, getHostname } from 'tldts';
+import { CSVParseOptions, CSVParseResult, parseCSVString } from './csvParser';
+import { createResolver, DNSResolver, parseMXRecord } from './dnsResolver';
+import { createScheduledResolver, LookupStats } from './lookupScheduler';
+import { DEFAULT_LOOKUP_SETTINGS, LookupSettings } from './lookupSettings';
+import { getExpiryTime, MXCacheEntry, readFreshMXEntries, writeMXEntries } from './mxCache';
+import { getSPFProviders, parseDMARCPolicy, parseSPF } from './emailAuth';
+import { checkEmail, getEmailSyntaxError, getInvalidEmailReason } from './emailValidation';
+import {
+  createEmailTypeClassifier,
+  DEFAULT_EMAIL_DOMAIN_LISTS,
+  EmailDomainLists,
+  EmailType,
+  EmailTypeClassifier
+} from './emailDomainLists';
+import { suggestDomain } from './domainTypos';
+import { toASCIIDomain, toUnicodeDomain } from './idn';
+import { getTitleDepartment, getTitleSeniority } from './seniority';
+import { createRoleAccountMatcher, DEFAULT_ROLE_ACCOUNT_GROUPS, RoleAccountGroup, RoleAccountMatcher } from './roleAccounts';
+import { readFreshTXTEntries, TXTCacheEntry, writeTXTEntries } from './txtCache';
+import {
+  classifyMXHosts,
+  DEFAULT_PROVIDER_CATALOGUE,
+  MXClassification,
+  ProviderRule
+} from './providerCatalogue';
 
 // Types for CSV processing
 export type CSVRow = Record<string, string>;
@@ -9,14 +33,111 @@ export type ProcessingTask = {
   id: string;
   fileName: string;
   uploadTime: string;
-  status: 'pending' | 'processing' | 'complete' | 'error';
+  status: 'pending' | 'processing' | 'complete' | 'error' | 'cancelled';
   progress: number;
   totalRows: number;
   processedRows: number;
+  stage?: string; // Current pipeline stage, e.g. 'Processing MX records'
+  stageReports?: StageReport[]; // Row counts after each completed stage
+  completedTime?: string;
   result?: CSVData;
   mappedColumns?: Record<string, string>;
   type?: 'domain-only' | 'single-email' | 'multi-email';
   originalRowCount?: number; // To keep track of the original row count
+  lookupStats?: LookupStats; // Live DNS lookup counters while MX/TXT lookups run
+  options?: TaskOptions; // Choices made when the task was started
+};
+
+export type CSVFileType = 'domain-only' | 'single-email' | 'multi-email';
+
+export type StageReport = {
+  stage: string;
+  totalRows: number;
+  markedForDeletion: number;
+  remainingRows: number;
+};
+
+/**
+ * What to do with rows of a given email type: leave them alone, note it in
+ * review_reason, or mark them for deletion
+ */
+export type EmailTypeAction = 'keep' | 'flag' | 'delete';
+
+/**
+ * What to do with role accounts (info@, billing@...): keep them like any
+ * other address, keep them but never offer them as alternative contacts, or
+ * mark them for deletion
+ */
+export type RoleAccountAction = 'keep' | 'deprioritise' | 'delete';
+
+/**
+ * Which domain groups contacts for the frequency cap and other_dm assignment:
+ * the website host (cleaned_website, so shop.acme.com and blog.acme.com are
+ * separate companies) or the registrable domain (root_domain, acme.com)
+ */
+export type DomainGrouping = 'website' | 'root-domain';
+
+/**
+ * How an email's domain relates to the row's website: the same root domain,
+ * a subdomain or sister domain of it (mail.acme.com, acme.de for acme.com),
+ * a free webmail or disposable domain, or an unrelated domain
+ */
+export type DomainMatch = 'exact' | 'subsidiary' | 'free-mail' | 'mismatch';
+
+/**
+ * What to do with a domain that has more contacts than the task allows:
+ * remove all of them, keep the first ones in file order, or keep the
+ * best-ranked ones (see compareContactRank)
+ */
+export type DomainCapPolicy = 'delete-all' | 'keep-first' | 'keep-best';
+
+/**
+ * How each contact's other_dm is chosen among the other contacts on its
+ * domain: the next one in file order, the most senior one, the most senior
+ * one in the same department (falling back to the most senior one), or a
+ * random one that stays the same for the same seed
+ */
+export type OtherDmStrategy = 'round-robin' | 'most-senior-other' | 'same-department' | 'random-seeded';
+
+/**
+ * Optional pipeline behaviour chosen per task when it is started
+ */
+export type TaskOptions = {
+  checkEmailAuth: boolean; // Look up SPF and DMARC records (twice the DNS queries)
+  freeMailAction: EmailTypeAction;
+  disposableAction: EmailTypeAction;
+  roleAccountAction: RoleAccountAction;
+  domainGrouping: DomainGrouping;
+  flagDomainMismatch: boolean; // Flag rows whose email domain is unrelated to their website
+  maxContactsPerDomain: number; // Contacts allowed per domain before domainCapPolicy applies
+  domainCapPolicy: DomainCapPolicy;
+  otherDmStrategy: OtherDmStrategy;
+  otherDmSeed: number; // Only used by the random-seeded strategy
+};
+
+export const DEFAULT_TASK_OPTIONS: TaskOptions = {
+  checkEmailAuth: false,
+  freeMailAction: 'flag',
+  disposableAction: 'delete',
+  roleAccountAction: 'deprioritise',
+  domainGrouping: 'root-domain',
+  flagDomainMismatch: true,
+  maxContactsPerDomain: 6,
+  domainCapPolicy: 'delete-all',
+  otherDmStrategy: 'round-robin',
+  otherDmSeed: 1
+};
+
+export type ProcessingOptions = {
+  signal?: AbortSignal; // Aborting stops the pipeline at the next checkpoint
+  onStageComplete?: (report: StageReport) => void;
+  lookupSettings?: LookupSettings; // Defaults to DEFAULT_LOOKUP_SETTINGS
+  resolver?: DNSResolver; // Defaults to Google DNS over HTTPS
+  providerCatalogue?: ProviderRule[]; // Defaults to DEFAULT_PROVIDER_CATALOGUE
+  onLookupStats?: (stats: LookupStats) => void;
+  taskOptions?: TaskOptions; // Defaults to DEFAULT_TASK_OPTIONS
+  emailDomainLists?: EmailDomainLists; // Defaults to DEFAULT_EMAIL_DOMAIN_LISTS
+  roleAccountGroups?: RoleAccountGroup[]; // Defaults to DEFAULT_ROLE_ACCOUNT_GROUPS
 };
 
 /**
@@ -42,69 +163,60 @@ export const excludedColumns = [
 ];
 
 /**
- * Parse CSV string to array of objects - optimized version
+ * Columns shown (and exported) first, in this order
  */
-export const parseCSV = (csvString: string): { headers: string[], data: CSVData } => {
-  try {
-    // Split by newline, filter out empty lines
-    const lines = csvString.split('\n').filter(line => line.trim().length > 0);
-    
-    if (lines.length === 0) {
-      return { headers: [], data: [] };
-    }
-    
-    const headers = lines[0].split(',').map(header => header.trim());
-    
-    const data: CSVData = [];
-    // Process in chunks for better performance with large files
-    const chunkSize = 2000; // Increased chunk size for faster processing
-    
-    for (let i = 0; i < Math.ceil((lines.length - 1) / chunkSize); i++) {
-      const start = i * chunkSize + 1;
-      const end = Math.min(start + chunkSize, lines.length);
-      
-      for (let j = start; j < end; j++) {
-        // Handle case where fields might contain commas inside quotes
-        const row: CSVRow = {};
-        let fields = [];
-        let inQuotes = false;
-        let field = '';
-        const line = lines[j];
+export const priorityHeaders = [
+  'to_be_deleted', 'deletion_reason', 'review_reason', 'email', 'suggested_email', 'email_type', 'is_role_account', 'fullName', 'full_name', 'firstName', 'first_name', 
+  'lastName', 'last_name', 'title', 'phone', 'company', 'cleaned_company_name', 
+  'website', 'cleaned_website', 'root_domain', 'domain_match', 'other_dm_name', 'other_dm_email', 'other_dm_title', 'mx_provider', 'mx_gateway', 'mx_records',
+  'spf_present', 'spf_providers', 'dmarc_policy'
+];
 
-        for (let k = 0; k < line.length; k++) {
-          const char = line[k];
-          
-          if (char === '"') {
-            inQuotes = !inQuotes;
-          } else if (char === ',' && !inQuotes) {
-            fields.push(field);
-            field = '';
-          } else {
-            field += char;
-          }
-        }
-        
-        fields.push(field); // Push the last field
-        
-        // If simple split works and matches headers, use it
-        if (fields.length !== headers.length) {
-          fields = line.split(',');
-        }
+/**
+ * Sort headers with the priority headers first, keeping the rest in their original order
+ */
+export const orderHeaders = (headers: string[]): string[] => {
+  const uniqueHeaders = new Set(headers);
+  return [
+    ...priorityHeaders.filter(h => uniqueHeaders.has(h)),
+    ...Array.from(uniqueHeaders).filter(h => !priorityHeaders.includes(h))
+  ];
+};
 
-        headers.forEach((header, index) => {
-          row[header] = fields[index]?.trim() || '';
-        });
-        
-        data.push(row);
-      }
-    }
+/**
+ * Summary counts for a processed result
+ */
+export const getResultStats = (result: CSVData) => {
+  let markedForDeletion = 0;
+  let withAlternativeContacts = 0;
+  
+  result.forEach(row => {
+    if (row.to_be_deleted === 'true') markedForDeletion++;
+    if (row.other_dm_name && row.other_dm_name.trim() !== '') withAlternativeContacts++;
+  });
+  
+  return {
+    totalRows: result.length,
+    markedForDeletion,
+    withAlternativeContacts,
+    validRows: result.length - markedForDeletion
+  };
+};
+
+/**
+ * Parse CSV string to array of objects. Quoted fields may contain delimiters,
+ * escaped quotes and line breaks; rows whose field count does not match the
+ * header are reported in `errors` (with line numbers) and left out of `data`.
+ */
+export const parseCSV = (csvString: string, options: CSVParseOptions = {}): CSVParseResult => {
+  try {
+    const result = parseCSVString(csvString, options);
     
-    console.log(`Parsed CSV: ${headers.length} columns, ${data.length} rows`);
-    return { headers, data };
+    console.log(`Parsed CSV: ${result.headers.length} columns, ${result.data.length} rows, ${result.errorCount} malformed rows`);
+    return result;
   } catch (error) {
     console.error('Error parsing CSV:', error);
-    toast.error('Error parsing CSV file');
-    return { headers: [], data: [] };
+    return { headers: [], data: [], errors: [], errorCount: 0 };
   }
 };
 
@@ -131,8 +243,8 @@ export const dataToCSV = (headers: string[], data: CSVData): string => {
       }
       
       const value = row[header] !== undefined ? row[header] : '';
-      // Escape commas and quotes
-      if (value.toString().includes(',') || value.toString().includes('"')) {
+      // Escape commas, quotes and line breaks
+      if (/[",\r\n]/.test(value.toString())) {
         return `"${value.toString().replace(/"/g, '""')}"`;
       }
       return value;
@@ -166,33 +278,34 @@ export const inferCSVType = (headers: string[]): 'domain-only' | 'single-email'
 };
 
 /**
- * Clean website URL to get just the domain - optimized
+ * Host name of a website without "www.", whatever the URL looks like:
+ * "HTTPS://www.Shop.Acme.co.uk:8080/About?q=1" -> "shop.acme.co.uk".
+ * Internationalised hosts are returned in Unicode, even when written in punycode.
  */
 export const cleanWebsiteUrl = (url: string): string => {
   if (!url) return '';
   
-  try {
-    // Optimize by checking common patterns first
-    const domainMatch = url.match(/(?:https?:\/\/)?(?:www\.)?([^\/]+\.[a-z]+)(?:\/|$)/i);
-    if (domainMatch) {
-      return domainMatch[1].toLowerCase();
-    }
-    
-    // Handle URLs that don't start with http/https
-    if (!url.match(/^https?:\/\//i)) {
-      url = 'https://' + url;
-    }
-    
-    const domain = new URL(url).hostname;
-    return domain
-      .replace(/^www\./i, '')  // Remove www.
-      .replace(/\/$/, '')      // Remove trailing slash
-      .toLowerCase();          // Ensure lowercase
-  } catch (error) {
-    // If URL parsing fails, try a simple regex approach
-    const match = url.match(/(?:https?:\/\/)?(?:www\.)?([^\/]+)/i);
-    return match ? match[1].replace(/\/$/, '').toLowerCase() : url.toLowerCase();
-  }
+  const hostname = getHostname(url.trim());
+  return hostname ? toUnicodeDomain(hostname.replace(/^www\d*\./, '')) : '';
+};
+
+/**
+ * Registrable domain of a website or host, using the Public Suffix List
+ * bundled with tldts: "shop.acme.co.uk" -> "acme.co.uk". Hosts without a
+ * known suffix (IP addresses, intranet names) are returned as they are.
+ */
+export const getRootDomain = (url: string): string => {
+  if (!url) return '';
+  
+  const domain = getDomain(url.trim());
+  return domain ? toUnicodeDomain(domain) : cleanWebsiteUrl(url);
+};
+
+/**
+ * Domain a row is grouped by, following the task's domain grouping
+ */
+export const getGroupingDomain = (row: CSVRow, grouping: DomainGrouping): string => {
+  return (grouping === 'website' ? row['cleaned_website'] : row['root_domain']) || '';
 };
 
 /**
@@ -230,140 +343,805 @@ export const cleanCompanyName = (name: string): string => {
     .join(' ');
 };
 
-// Cache for MX results to avoid repeated lookups - SINGLE declaration
-const mxCache: Record<string, 'google' | 'microsoft' | 'other'> = {};
+/**
+ * Yield to the event loop so queued messages (such as a cancel request) get
+ * handled, then stop if the task has been cancelled
+ */
+const checkpoint = async (signal?: AbortSignal): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  signal?.throwIfAborted();
+};
+
+/**
+ * Report the row counts after a pipeline stage has finished
+ */
+const reportStage = (options: ProcessingOptions, stage: string, data: CSVData): void => {
+  if (!options.onStageComplete) return;
+  
+  const markedForDeletion = data.filter(row => row['to_be_deleted'] === 'true').length;
+  options.onStageComplete({
+    stage,
+    totalRows: data.length,
+    markedForDeletion,
+    remainingRows: data.length - markedForDeletion
+  });
+};
+
+/**
+ * Outcome of an MX lookup, as written to the mx_provider column:
+ * - a provider from the catalogue (google, microsoft, zoho...) or
+ *   other-hosted: the domain receives mail there
+ * - no-mx: the domain exists but has no (or a null) MX record
+ * - nxdomain: the domain does not exist
+ * - lookup-failed: the lookup itself failed (network error, SERVFAIL...)
+ */
+export type MXProvider = string;
+
+/**
+ * Deletion reasons for rows whose email domain cannot receive mail
+ */
+const DEAD_DOMAIN_REASONS: Record<string, string> = {
+  'nxdomain': 'Email domain does not exist (NXDOMAIN)',
+  'no-mx': 'Email domain has no MX records'
+};
+
+// Domains handed to the lookup scheduler at a time, between checkpoints
+const MX_LOOKUP_CHUNK_SIZE = 200;
+
+/**
+ * Domain to look up for an email, in its ASCII (punycode) form as DNS
+ * expects, or '' when the address is invalid
+ */
+const getLookupDomain = (email: string | undefined): string => {
+  if (!email || getEmailSyntaxError(email)) return '';
+  return toASCIIDomain(email.split('@')[1]);
+};
+
+/**
+ * Host names of MX records ("10 mx.example.com.") ordered by preference.
+ * Records parseMXRecord does not accept are skipped.
+ */
+export const getMXHosts = (mxRecords: string[]): string[] => {
+  return mxRecords
+    .map(parseMXRecord)
+    .filter(record => record !== null)
+    .sort((a, b) => a.preference - b.preference)
+    .map(record => record.host)
+    .filter(host => host !== '');
+};
+
+/**
+ * Work out the mail provider and security gateway from MX records
+ */
+export const classifyMXRecords = (
+  mxRecords: string[],
+  catalogue: ProviderRule[] = DEFAULT_PROVIDER_CATALOGUE
+): MXClassification => {
+  const hosts = getMXHosts(mxRecords);
+  
+  // A null MX ("0 .") means the domain explicitly accepts no mail (RFC 7505)
+  if (hosts.length === 0) {
+    return { provider: 'no-mx', gateway: '' };
+  }
+  
+  return classifyMXHosts(hosts, catalogue);
+};
 
 /**
- * Make a request to check the MX records for a domain
+ * Provider and gateway for a lookup result. Cached records are classified
+ * again so that catalogue edits apply to them too.
  */
-export const getMXProvider = async (domain: string): Promise<'google' | 'microsoft' | 'other'> => {
-  // Check cache first
-  if (mxCache[domain]) {
-    return mxCache[domain];
+const describeMXEntry = (entry: MXCacheEntry | undefined, catalogue: ProviderRule[]): MXClassification => {
+  if (!entry) {
+    return { provider: 'lookup-failed', gateway: '' };
+  }
+  if (entry.status === 'failed' || entry.provider === 'nxdomain') {
+    return { provider: entry.provider, gateway: '' };
   }
+  return classifyMXRecords(entry.records, catalogue);
+};
+
+/**
+ * Check the MX records for a domain with the given resolver. Never throws: a
+ * failed lookup comes back as a 'failed' entry so it is cached briefly.
+ */
+export const lookupMX = async (
+  domain: string,
+  resolver: DNSResolver,
+  settings: LookupSettings,
+  catalogue: ProviderRule[] = DEFAULT_PROVIDER_CATALOGUE
+): Promise<MXCacheEntry> => {
+  const fetchedAt = Date.now();
   
   try {
-    console.log(`Fetching MX records for domain: ${domain}`);
-    const response = await fetch(`https://dns.google/resolve?name=${domain}&type=MX`);
-    const data = await response.json();
+    console.log(`Fetching MX records for domain: ${domain} (${resolver.name})`);
+    const answer = await resolver.resolve(domain, 'MX');
+    const mxRecords = answer.records.map(record => record.toLowerCase());
+    console.log(`MX records for ${domain}:`, mxRecords);
     
-    if (data.Answer) {
-      const mxRecords = data.Answer.map((record: any) => record.data.toLowerCase());
-      console.log(`MX records for ${domain}:`, mxRecords);
-      
-      let result: 'google' | 'microsoft' | 'other';
-      
-      // Check for Google MX patterns
-      if (mxRecords.some((record: string) => 
-        record.includes('google') || 
-        record.includes('gmail') || 
-        record.includes('aspmx.l.google.com')
-      )) {
-        result = 'google';
-      } 
-      // Check for Microsoft MX patterns
-      else if (mxRecords.some((record: string) => 
-        record.includes('outlook') || 
-        record.includes('microsoft') || 
-        record.includes('hotmail') ||
-        record.includes('protection.outlook.com')
-      )) {
-        result = 'microsoft';
-      } 
-      // Default to other
-      else {
-        result = 'other';
-      }
-      
-      // Cache the result
-      mxCache[domain] = result;
-      return result;
-    }
+    const classification = answer.nxdomain
+      ? { provider: 'nxdomain', gateway: '' }
+      : classifyMXRecords(mxRecords, catalogue);
     
-    mxCache[domain] = 'other';
-    return 'other';
+    return {
+      domain,
+      status: 'resolved',
+      records: mxRecords,
+      provider: classification.provider,
+      gateway: classification.gateway,
+      fetchedAt,
+      expiresAt: getExpiryTime('resolved', fetchedAt, settings, answer.ttl)
+    };
   } catch (error) {
     console.error('Error fetching MX records:', error);
-    mxCache[domain] = 'other';
-    return 'other';
+    return {
+      domain,
+      status: 'failed',
+      records: [],
+      provider: 'lookup-failed',
+      fetchedAt,
+      expiresAt: getExpiryTime('failed', fetchedAt, settings),
+      error: error instanceof Error ? error.message : String(error)
+    };
   }
 };
 
 /**
  * Process a batch of domains to get MX records
- * Processes in batches of 20 to optimize speed
+ * Lookups go through the resolver in the options, which runPipeline wraps in
+ * the lookup scheduler; rows on domains that cannot receive mail are marked
+ * for deletion unless the lookup settings turn that off.
  */
 export const processMXBatch = async (
   data: CSVData,
   emailField: string,
-  updateProgress: (processed: number) => void
+  updateProgress: (processed: number) => void,
+  options: ProcessingOptions = {}
 ): Promise<CSVData> => {
   const result = [...data];
-  const batchSize = 20; // Increased from 10 for faster processing
+  const settings = options.lookupSettings || DEFAULT_LOOKUP_SETTINGS;
+  const resolver = options.resolver || createResolver({ type: 'google' });
+  const catalogue = options.providerCatalogue || DEFAULT_PROVIDER_CATALOGUE;
   const domains = new Set<string>();
   
   // Extract unique domains first
   console.log(`Processing MX batch for ${data.length} rows, email field: ${emailField}`);
   data.forEach(row => {
-    const email = row[emailField];
-    if (email) {
-      try {
-        const domain = email.split('@')[1];
-        if (domain) {
-          domains.add(domain);
-        }
-      } catch (error) {
-        // Skip invalid emails
-      }
+    const domain = getLookupDomain(row[emailField]);
+    if (domain) {
+      domains.add(domain);
     }
   });
   
   console.log(`Found ${domains.size} unique domains to check`);
   const uniqueDomains = Array.from(domains);
   
-  // Process in batches with parallel requests for better performance
-  for (let i = 0; i < uniqueDomains.length; i += batchSize) {
-    const batch = uniqueDomains.slice(i, i + batchSize);
-    const promises = batch.map(domain => getMXProvider(domain));
-    
+  // Reuse cached lookups that have not expired; the run still works without the cache
+  let mxResults = new Map<string, MXCacheEntry>();
+  if (resolver.cacheable) {
     try {
-      const results = await Promise.all(promises);
-      
-      batch.forEach((domain, index) => {
-        mxCache[domain] = results[index];
-      });
-      
-      updateProgress(Math.min(i + batchSize, uniqueDomains.length));
+      mxResults = await readFreshMXEntries(uniqueDomains);
     } catch (error) {
-      console.error('Error processing MX batch:', error);
+      console.error('Error reading MX cache:', error);
+    }
+  }
+  const pendingDomains = uniqueDomains.filter(domain => !mxResults.has(domain));
+  console.log(`${mxResults.size} domains found in the MX cache, ${pendingDomains.length} to look up`);
+  updateProgress(mxResults.size);
+  
+  for (let i = 0; i < pendingDomains.length; i += MX_LOOKUP_CHUNK_SIZE) {
+    await checkpoint(options.signal);
+    const chunk = pendingDomains.slice(i, i + MX_LOOKUP_CHUNK_SIZE);
+    let done = 0;
+    const entries = await Promise.all(chunk.map(async domain => {
+      const entry = await lookupMX(domain, resolver, settings, catalogue);
+      done++;
+      updateProgress(uniqueDomains.length - pendingDomains.length + i + done);
+      return entry;
+    }));
+    
+    // Cancelled lookups come back as failures; they must not end up in the cache
+    options.signal?.throwIfAborted();
+    entries.forEach(entry => mxResults.set(entry.domain, entry));
+    
+    if (resolver.cacheable) {
+      try {
+        await writeMXEntries(entries);
+      } catch (error) {
+        console.error('Error writing MX cache:', error);
+      }
     }
   }
   
   // Apply MX results to the data
   result.forEach(row => {
-    const email = row[emailField];
-    if (email) {
+    const domain = getLookupDomain(row[emailField]);
+    if (!domain) {
+      row['mx_provider'] = '';
+      row['mx_gateway'] = '';
+      row['mx_records'] = '';
+      return;
+    }
+    
+    const entry = mxResults.get(domain);
+    const { provider, gateway } = describeMXEntry(entry, catalogue);
+    row['mx_provider'] = provider;
+    row['mx_gateway'] = gateway;
+    row['mx_records'] = entry ? getMXHosts(entry.records).join('; ') : '';
+    
+    const deadDomainReason = DEAD_DOMAIN_REASONS[row['mx_provider']];
+    if (settings.flagDeadDomains && deadDomainReason && row['to_be_deleted'] !== 'true') {
+      row['to_be_deleted'] = 'true';
+      row['deletion_reason'] = deadDomainReason;
+    }
+  });
+  
+  return result;
+};
+
+/**
+ * Fetch the TXT records for a name. Never throws, like lookupMX.
+ */
+export const lookupTXT = async (
+  name: string,
+  resolver: DNSResolver,
+  settings: LookupSettings
+): Promise<TXTCacheEntry> => {
+  const fetchedAt = Date.now();
+  
+  try {
+    const answer = await resolver.resolve(name, 'TXT');
+    return {
+      name,
+      status: 'resolved',
+      records: answer.records,
+      fetchedAt,
+      expiresAt: getExpiryTime('resolved', fetchedAt, settings, answer.ttl)
+    };
+  } catch (error) {
+    console.error(`Error fetching TXT records for ${name}:`, error);
+    return {
+      name,
+      status: 'failed',
+      records: [],
+      fetchedAt,
+      expiresAt: getExpiryTime('failed', fetchedAt, settings),
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+/**
+ * Look up SPF (TXT on the domain) and DMARC (TXT on _dmarc.domain) for every
+ * email domain and write spf_present, spf_providers and dmarc_policy.
+ * Domains that do not exist are skipped. Runs after processMXBatch and uses
+ * the same resolver and cache settings. Resolvers without TXT answers (DNS
+ * fixtures) write "unavailable" rather than a made-up missing record.
+ */
+export const processEmailAuthBatch = async (
+  data: CSVData,
+  emailField: string,
+  updateProgress: (processed: number) => void,
+  options: ProcessingOptions = {}
+): Promise<CSVData> => {
+  const result = [...data];
+  const settings = options.lookupSettings || DEFAULT_LOOKUP_SETTINGS;
+  const resolver = options.resolver || createResolver({ type: 'google' });
+  const domains = new Set<string>();
+  
+  if (!resolver.supportsTXT) {
+    result.forEach(row => {
+      const available = getLookupDomain(row[emailField]) !== '' && row['mx_provider'] !== 'nxdomain';
+      row['spf_present'] = available ? 'unavailable' : '';
+      row['spf_providers'] = '';
+      row['dmarc_policy'] = available ? 'unavailable' : '';
+    });
+    return result;
+  }
+  
+  data.forEach(row => {
+    const domain = getLookupDomain(row[emailField]);
+    if (domain && row['mx_provider'] !== 'nxdomain') {
+      domains.add(domain);
+    }
+  });
+  
+  const names = Array.from(domains).flatMap(domain => [domain, `_dmarc.${domain}`]);
+  console.log(`Checking SPF and DMARC for ${domains.size} domains`);
+  
+  let txtResults = new Map<string, TXTCacheEntry>();
+  if (resolver.cacheable) {
+    try {
+      txtResults = await readFreshTXTEntries(names);
+    } catch (error) {
+      console.error('Error reading TXT cache:', error);
+    }
+  }
+  const pendingNames = names.filter(name => !txtResults.has(name));
+  updateProgress(txtResults.size);
+  
+  for (let i = 0; i < pendingNames.length; i += MX_LOOKUP_CHUNK_SIZE) {
+    await checkpoint(options.signal);
+    const chunk = pendingNames.slice(i, i + MX_LOOKUP_CHUNK_SIZE);
+    let done = 0;
+    const entries = await Promise.all(chunk.map(async name => {
+      const entry = await lookupTXT(name, resolver, settings);
+      done++;
+      updateProgress(names.length - pendingNames.length + i + done);
+      return entry;
+    }));
+    
+    options.signal?.throwIfAborted();
+    entries.forEach(entry => txtResults.set(entry.name, entry));
+    
+    if (resolver.cacheable) {
       try {
-        const domain = email.split('@')[1];
-        row['mx_provider'] = mxCache[domain] || 'other';
+        await writeTXTEntries(entries);
       } catch (error) {
-        row['mx_provider'] = 'other';
+        console.error('Error writing TXT cache:', error);
       }
+    }
+  }
+  
+  result.forEach(row => {
+    const domain = getLookupDomain(row[emailField]);
+    const spfEntry = domain ? txtResults.get(domain) : undefined;
+    const dmarcEntry = domain ? txtResults.get(`_dmarc.${domain}`) : undefined;
+    
+    if (!spfEntry) {
+      row['spf_present'] = '';
+      row['spf_providers'] = '';
+    } else if (spfEntry.status === 'failed') {
+      row['spf_present'] = 'lookup-failed';
+      row['spf_providers'] = '';
     } else {
-      row['mx_provider'] = '';
+      const spf = parseSPF(spfEntry.records);
+      row['spf_present'] = spf.present ? 'true' : 'false';
+      row['spf_providers'] = getSPFProviders(spf.includes).join('; ');
+    }
+    
+    if (!dmarcEntry) {
+      row['dmarc_policy'] = '';
+    } else if (dmarcEntry.status === 'failed') {
+      row['dmarc_policy'] = 'lookup-failed';
+    } else {
+      row['dmarc_policy'] = parseDMARCPolicy(dmarcEntry.records) || 'missing';
     }
   });
   
   return result;
 };
 
+/**
+ * Keep a row but note why it needs a second look. Several reasons are
+ * joined with "; ".
+ */
+const flagForReview = (row: CSVRow, reason: string): void => {
+  row['review_reason'] = row['review_reason'] ? `${row['review_reason']}; ${reason}` : reason;
+};
+
+const EMAIL_TYPE_REASONS: Record<Exclude<EmailType, 'business'>, string> = {
+  free: 'Free webmail address',
+  disposable: 'Disposable email address'
+};
+
+/**
+ * Write email_type (business, free or disposable) for every row and apply
+ * the task's action for free and disposable addresses to rows still kept
+ */
+export const processEmailTypes = (
+  data: CSVData,
+  emailField: string,
+  emailTypes: EmailTypeClassifier,
+  taskOptions: TaskOptions
+): CSVData => {
+  const actions: Record<Exclude<EmailType, 'business'>, EmailTypeAction> = {
+    free: taskOptions.freeMailAction,
+    disposable: taskOptions.disposableAction
+  };
+  
+  data.forEach(row => {
+    const domain = getLookupDomain(row[emailField]);
+    if (!domain) {
+      row['email_type'] = '';
+      return;
+    }
+    
+    const type = emailTypes.getType(domain);
+    row['email_type'] = type;
+    if (type === 'business' || row['to_be_deleted'] === 'true') return;
+    
+    const reason = `${EMAIL_TYPE_REASONS[type]} (${domain})`;
+    if (actions[type] === 'delete') {
+      row['to_be_deleted'] = 'true';
+      row['deletion_reason'] = reason;
+    } else if (actions[type] === 'flag') {
+      flagForReview(row, reason);
+    }
+  });
+  
+  return data;
+};
+
+const TYPO_REVIEW_PREFIX = 'Possible typo in email domain';
+
+/**
+ * Write suggested_email for addresses whose domain cannot receive mail
+ * (NXDOMAIN or no MX) and looks like a typo of a well-known provider or TLD
+ * (gmial.com, example.con), and flag those rows for review. Runs after
+ * processMXBatch. Domains on the free webmail list are taken as correct.
+ */
+export const processDomainTypos = (
+  data: CSVData,
+  emailField: string,
+  lists: EmailDomainLists
+): CSVData => {
+  const knownDomains = new Set([...lists.free, ...lists.disposable]);
+  const deadDomainReasons = Object.values(DEAD_DOMAIN_REASONS);
+  const suggestions = new Map<string, string | null>();
+  
+  data.forEach(row => {
+    const email = row[emailField];
+    const domain = getLookupDomain(email);
+    if (!domain || !DEAD_DOMAIN_REASONS[row['mx_provider']]) {
+      row['suggested_email'] = '';
+      return;
+    }
+    
+    if (!suggestions.has(domain)) {
+      suggestions.set(domain, suggestDomain(domain, knownDomains));
+    }
+    const suggestion = suggestions.get(domain);
+    row['suggested_email'] = suggestion ? `${email.split('@')[0]}@${suggestion}` : '';
+    
+    // Rows deleted only because of the dead domain are worth a look too
+    if (suggestion && (row['to_be_deleted'] !== 'true' || deadDomainReasons.includes(row['deletion_reason']))) {
+      flagForReview(row, `${TYPO_REVIEW_PREFIX}: did you mean ${suggestion}?`);
+    }
+  });
+  
+  return data;
+};
+
+const CORRECTED_EMAIL_REVIEW_REASON =
+  'Email corrected from suggestion: MX records, domain cap and other_dm not checked until the file is processed again';
+
+/**
+ * Replace emails with their suggested correction, for rows that have one,
+ * and classify the corrected rows again: syntax, duplicates, email type, role
+ * account and website match. Notes and deletion reasons about the mistyped
+ * domain are dropped first. The new domain has not been looked up, so its
+ * mx_provider is "not-looked-up" and the SPF and DMARC columns are cleared.
+ * The MX, domain cap and other_dm stages are not run again here: corrected
+ * rows that are kept are flagged for review until the file is processed
+ * again. other_dm columns pointing at a corrected row follow it.
+ */
+export const acceptSuggestedEmails = (
+  data: CSVData,
+  emailField: string,
+  websiteField: string,
+  taskOptions: TaskOptions,
+  emailDomainLists: EmailDomainLists,
+  roleAccountGroups: RoleAccountGroup[]
+): CSVData => {
+  const emailTypes = createEmailTypeClassifier(emailDomainLists);
+  const isRoleAccount = createRoleAccountMatcher(roleAccountGroups);
+  const staleDeletionReasons = Object.values(DEAD_DOMAIN_REASONS);
+  const staleReviewPrefixes = [TYPO_REVIEW_PREFIX, DOMAIN_MISMATCH_REVIEW_PREFIX, ...Object.values(EMAIL_TYPE_REASONS)];
+  
+  const result = data.map(row => ({ ...row }));
+  const accepted = result.filter(row => row['suggested_email']);
+  const previousEmails = new Map(accepted.map(row => [row, row[emailField]]));
+  
+  accepted.forEach(row => {
+    const { email, error } = checkEmail(row['suggested_email']);
+    row[emailField] = email;
+    row['suggested_email'] = '';
+    
+    if (row['review_reason']) {
+      row['review_reason'] = row['review_reason']
+        .split('; ')
+        .filter(reason => !staleReviewPrefixes.some(prefix => reason.startsWith(prefix)))
+        .join('; ');
+    }
+    if (row['to_be_deleted'] === 'true' && (
+      staleDeletionReasons.includes(row['deletion_reason']) ||
+      Object.values(EMAIL_TYPE_REASONS).some(reason => row['deletion_reason'].startsWith(reason))
+    )) {
+      row['to_be_deleted'] = 'false';
+      row['deletion_reason'] = '';
+    }
+    if (error && row['to_be_deleted'] !== 'true') {
+      row['to_be_deleted'] = 'true';
+      row['deletion_reason'] = getInvalidEmailReason(error);
+    }
+    
+    if ('mx_provider' in row) row['mx_provider'] = 'not-looked-up';
+    ['mx_gateway', 'mx_records', 'spf_present', 'spf_providers', 'dmarc_policy'].forEach(column => {
+      if (column in row) row[column] = '';
+    });
+    
+    // Websites taken from the email domain follow the correction
+    if (!(websiteField && row[websiteField])) {
+      const emailDomain = getLookupDomain(email);
+      row['cleaned_website'] = emailDomain && !emailTypes.isSharedDomain(emailDomain) ? toUnicodeDomain(emailDomain) : '';
+      row['root_domain'] = getRootDomain(row['cleaned_website']);
+    }
+  });
+  
+  // A corrected address may already be in the file; the existing row wins
+  const keptEmails = new Set(
+    result
+      .filter(row => !previousEmails.has(row) && row['to_be_deleted'] !== 'true')
+      .map(row => (row[emailField] || '').toLowerCase().trim())
+  );
+  accepted.forEach(row => {
+    if (row['to_be_deleted'] === 'true') return;
+    
+    const email = row[emailField];
+    if (keptEmails.has(email)) {
+      row['to_be_deleted'] = 'true';
+      row['deletion_reason'] = 'Duplicate email (keeping existing row)';
+    } else {
+      keptEmails.add(email);
+    }
+  });
+  
+  processEmailTypes(accepted, emailField, emailTypes, taskOptions);
+  processRoleAccounts(accepted, emailField, isRoleAccount, taskOptions.roleAccountAction);
+  processDomainMatch(accepted, emailField, websiteField, emailTypes, taskOptions.flagDomainMismatch);
+  accepted
+    .filter(row => row['to_be_deleted'] !== 'true')
+    .forEach(row => flagForReview(row, CORRECTED_EMAIL_REVIEW_REASON));
+  
+  // Alternative contacts pointing at a corrected row get its new address,
+  // or are cleared when the row is now deleted
+  const correctedRows = new Map(accepted.map(row => [previousEmails.get(row), row]));
+  result.forEach(row => {
+    const target = row['other_dm_email'] ? correctedRows.get(row['other_dm_email']) : undefined;
+    if (!target) return;
+    
+    if (target['to_be_deleted'] === 'true') {
+      row['other_dm_name'] = '';
+      row['other_dm_email'] = '';
+      row['other_dm_title'] = '';
+    } else {
+      row['other_dm_email'] = target[emailField];
+    }
+  });
+  
+  return result;
+};
+
+/**
+ * Write is_role_account for every row with a valid email and mark role
+ * accounts for deletion when the task asks for it
+ */
+export const processRoleAccounts = (
+  data: CSVData,
+  emailField: string,
+  isRoleAccount: RoleAccountMatcher,
+  action: RoleAccountAction
+): CSVData => {
+  data.forEach(row => {
+    const { email, error } = checkEmail(row[emailField] || '');
+    if (error) {
+      row['is_role_account'] = '';
+      return;
+    }
+    
+    const roleAccount = isRoleAccount(email);
+    row['is_role_account'] = roleAccount ? 'true' : 'false';
+    
+    if (roleAccount && action === 'delete' && row['to_be_deleted'] !== 'true') {
+      row['to_be_deleted'] = 'true';
+      row['deletion_reason'] = `Role account (${email.split('@')[0]}@)`;
+    }
+  });
+  
+  return data;
+};
+
+/**
+ * Compare an email domain with a website. Returns '' when either is missing.
+ */
+export const getDomainMatch = (
+  emailDomain: string,
+  website: string,
+  emailTypes: EmailTypeClassifier
+): DomainMatch | '' => {
+  const websiteRoot = getRootDomain(website);
+  if (!emailDomain || !websiteRoot) return '';
+  if (emailTypes.isSharedDomain(emailDomain)) return 'free-mail';
+  
+  const emailHost = toUnicodeDomain(emailDomain);
+  const emailRoot = getRootDomain(emailHost);
+  if (emailHost === websiteRoot) return 'exact';
+  if (emailRoot === websiteRoot) return 'subsidiary';
+  
+  // Same name under another suffix, e.g. a regional acme.de for acme.com
+  const emailName = getDomainWithoutSuffix(emailRoot);
+  return emailName && emailName === getDomainWithoutSuffix(websiteRoot) ? 'subsidiary' : 'mismatch';
+};
+
+const DOMAIN_MISMATCH_REVIEW_PREFIX = 'Email domain does not match website';
+
+/**
+ * Write domain_match for every row with a valid email and a website, and flag
+ * mismatches for review when the task asks for it: they are usually a
+ * contact scraped from another company's page
+ */
+export const processDomainMatch = (
+  data: CSVData,
+  emailField: string,
+  websiteField: string,
+  emailTypes: EmailTypeClassifier,
+  flagMismatches: boolean
+): CSVData => {
+  data.forEach(row => {
+    const emailDomain = getLookupDomain(row[emailField]);
+    const match = websiteField ? getDomainMatch(emailDomain, row[websiteField] || '', emailTypes) : '';
+    row['domain_match'] = match;
+    
+    if (match === 'mismatch' && flagMismatches && row['to_be_deleted'] !== 'true') {
+      flagForReview(row, `${DOMAIN_MISMATCH_REVIEW_PREFIX} (${toUnicodeDomain(emailDomain)} vs ${getRootDomain(row[websiteField])})`);
+    }
+  });
+  
+  return data;
+};
+
+/**
+ * Whether any of the fields has a non-blank value
+ */
+const hasValue = (row: CSVRow, fields: string[]): boolean => {
+  return fields.some(field => row[field] && row[field].trim() !== '');
+};
+
+/**
+ * Job title of a contact, whichever way the column is spelled
+ */
+const getRowTitle = (row: CSVRow): string => (row['title'] || row['Title'] || '').trim();
+
+/**
+ * How many of name, title and phone a contact has
+ */
+const getContactCompleteness = (row: CSVRow): number => {
+  return [
+    hasValue(row, ['full_name', 'fullName', 'Full Name', 'first_name', 'firstName', 'last_name', 'lastName']),
+    getRowTitle(row) !== '',
+    hasValue(row, ['phone', 'Phone'])
+  ].filter(Boolean).length;
+};
+
+/**
+ * Order contacts best first: more complete rows, then more senior titles,
+ * then personal addresses before role accounts
+ */
+const compareContactRank = (a: CSVRow, b: CSVRow): number => {
+  return getContactCompleteness(b) - getContactCompleteness(a)
+    || getTitleSeniority(getRowTitle(b)) - getTitleSeniority(getRowTitle(a))
+    || Number(a['is_role_account'] === 'true') - Number(b['is_role_account'] === 'true');
+};
+
+/**
+ * Mark rows for deletion on domains with more contacts than the task allows,
+ * following its cap policy. The deletion reason names the policy.
+ */
+const applyDomainCap = (data: CSVData, taskOptions: TaskOptions, emailTypes: EmailTypeClassifier): void => {
+  const maxContacts = taskOptions.maxContactsPerDomain || DEFAULT_TASK_OPTIONS.maxContactsPerDomain;
+  const policy = taskOptions.domainCapPolicy || DEFAULT_TASK_OPTIONS.domainCapPolicy;
+  
+  // Only rows not already marked for deletion count towards the limit
+  const domainRows = new Map<string, CSVRow[]>();
+  data.forEach(row => {
+    if (row['to_be_deleted'] === 'true') return;
+    
+    const domain = getGroupingDomain(row, taskOptions.domainGrouping);
+    if (domain.trim() === '' || emailTypes.isSharedDomain(domain)) return;
+    
+    if (!domainRows.has(domain)) {
+      domainRows.set(domain, []);
+    }
+    domainRows.get(domain).push(row);
+  });
+  
+  domainRows.forEach((rows, domain) => {
+    if (rows.length <= maxContacts) return;
+    
+    let kept: CSVRow[] = [];
+    let outcome = 'all removed';
+    if (policy === 'keep-first') {
+      kept = rows.slice(0, maxContacts);
+      outcome = `kept first ${maxContacts}`;
+    } else if (policy === 'keep-best') {
+      kept = [...rows].sort(compareContactRank).slice(0, maxContacts);
+      outcome = `kept best ${maxContacts}`;
+    }
+    
+    const keptRows = new Set(kept);
+    rows.forEach(row => {
+      if (keptRows.has(row)) return;
+      row['to_be_deleted'] = 'true';
+      row['deletion_reason'] = `Domain ${domain} appears ${rows.length} times (>${maxContacts}, ${outcome})`;
+    });
+  });
+};
+
+/**
+ * Whether a row may be offered to others as their alternative contact
+ */
+const isContactCandidate = (row: CSVRow, action: RoleAccountAction): boolean => {
+  return action === 'keep' || row['is_role_account'] !== 'true';
+};
+
+/**
+ * Random numbers in [0, 1) that repeat for the same seed (mulberry32)
+ */
+const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Most senior of the rows; ties go to the first one
+ */
+const getMostSenior = (rows: CSVRow[]): CSVRow => {
+  return rows.reduce((best, row) => (
+    getTitleSeniority(getRowTitle(row)) > getTitleSeniority(getRowTitle(best)) ? row : best
+  ));
+};
+
+/**
+ * Choose the other_dm for rows[index] among the other rows of its domain that
+ * pass isCandidate, following the strategy. Returns null when there is none.
+ */
+const pickOtherContact = (
+  rows: CSVRow[],
+  index: number,
+  isCandidate: (row: CSVRow) => boolean,
+  strategy: OtherDmStrategy,
+  random: () => number
+): CSVRow | null => {
+  // Other candidates in round-robin order, starting after the current row
+  const others: CSVRow[] = [];
+  for (let k = 1; k < rows.length; k++) {
+    const row = rows[(index + k) % rows.length];
+    if (isCandidate(row)) others.push(row);
+  }
+  if (others.length === 0) return null;
+  
+  if (strategy === 'most-senior-other') {
+    return getMostSenior(others);
+  }
+  if (strategy === 'same-department') {
+    const department = getTitleDepartment(getRowTitle(rows[index]));
+    const colleagues = department
+      ? others.filter(row => getTitleDepartment(getRowTitle(row)) === department)
+      : [];
+    return getMostSenior(colleagues.length > 0 ? colleagues : others);
+  }
+  if (strategy === 'random-seeded') {
+    return others[Math.floor(random() * others.length)];
+  }
+  return others[0];
+};
+
 /**
  * Process domain only
  */
 export const processDomainOnlyCSV = async (
   data: CSVData,
   websiteField: string,
-  updateProgress: (processed: number) => void
+  updateProgress: (processed: number) => void,
+  options: ProcessingOptions = {},
+  emailField = '' // Optional; only used to detect role accounts
 ): Promise<CSVData> => {
   const result: CSVData = [];
   console.log(`Processing domain-only CSV with ${data.length} rows`);
@@ -378,6 +1156,7 @@ export const processDomainOnlyCSV = async (
       // Clean website URL
       const websiteUrl = row[websiteField] || '';
       row['cleaned_website'] = cleanWebsiteUrl(websiteUrl);
+      row['root_domain'] = getRootDomain(websiteUrl);
       
       // Ensure other_dm fields exist but are empty
       row['other_dm_name'] = '';
@@ -398,9 +1177,18 @@ export const processDomainOnlyCSV = async (
     }
     // Fix: Pass only the processed count
     updateProgress(chunkEnd);
+    await checkpoint(options.signal);
   }
   
   console.log(`Domain-only processing complete: ${result.length} rows processed`);
+  reportStage(options, 'Cleaning websites', result);
+  
+  if (emailField) {
+    const taskOptions = options.taskOptions || DEFAULT_TASK_OPTIONS;
+    const isRoleAccount = createRoleAccountMatcher(options.roleAccountGroups || DEFAULT_ROLE_ACCOUNT_GROUPS);
+    processRoleAccounts(result, emailField, isRoleAccount, taskOptions.roleAccountAction);
+    reportStage(options, 'Role accounts', result);
+  }
   return result;
 };
 
@@ -412,23 +1200,30 @@ export const processSingleEmailCSV = async (
   emailField: string,
   websiteField: string,
   companyField: string,
-  updateProgress: (processed: number, total: number, stage: string) => void
+  updateProgress: (processed: number, total: number, stage: string) => void,
+  options: ProcessingOptions = {}
 ): Promise<CSVData> => {
   console.log(`Processing single-email CSV with ${data.length} rows`);
   const originalRowCount = data.length;
+  const taskOptions = options.taskOptions || DEFAULT_TASK_OPTIONS;
+  const emailTypes = createEmailTypeClassifier(options.emailDomainLists || DEFAULT_EMAIL_DOMAIN_LISTS);
+  const isRoleAccount = createRoleAccountMatcher(options.roleAccountGroups || DEFAULT_ROLE_ACCOUNT_GROUPS);
   
-  // Stage 1: Mark rows with empty emails and duplicates for deletion
+  // Stage 1: Mark rows with empty or invalid emails and duplicates for deletion
   updateProgress(0, originalRowCount, 'Filtering email data');
   
-  // First mark rows with empty or invalid emails
+  // First normalise the emails and mark the ones that are empty or malformed
   let processedData = data.map(row => {
     const newRow = { ...row };
-    const email = (newRow[emailField] || '').trim().toLowerCase();
+    const { email, error } = checkEmail(newRow[emailField] || '');
+    newRow[emailField] = email;
     
-    // Mark rows with empty emails as to be deleted
-    if (email === '' || !email.includes('@')) {
+    if (email === '') {
+      newRow['to_be_deleted'] = 'true';
+      newRow['deletion_reason'] = 'Empty email';
+    } else if (error) {
       newRow['to_be_deleted'] = 'true';
-      newRow['deletion_reason'] = 'Empty or invalid email';
+      newRow['deletion_reason'] = getInvalidEmailReason(error);
     } else {
       newRow['to_be_deleted'] = 'false';
     }
@@ -436,7 +1231,8 @@ export const processSingleEmailCSV = async (
     return newRow;
   });
   
-  console.log(`After marking empty emails: ${processedData.filter(r => r['to_be_deleted'] === 'false').length} valid rows (marked ${processedData.filter(r => r['to_be_deleted'] === 'true').length} rows for deletion)`);
+  console.log(`After checking email syntax: ${processedData.filter(r => r['to_be_deleted'] === 'false').length} valid rows (marked ${processedData.filter(r => r['to_be_deleted'] === 'true').length} rows for deletion)`);
+  reportStage(options, 'Empty or invalid emails', processedData);
   
   // Then mark duplicate emails - keep the row with more data
   const uniqueEmails = new Map<string, number>();
@@ -499,18 +1295,48 @@ export const processSingleEmailCSV = async (
   }
   
   console.log(`After marking duplicates: ${processedData.filter(r => r['to_be_deleted'] === 'false').length} unique rows (marked ${processedData.filter(r => r['to_be_deleted'] === 'true' && r['deletion_reason']?.includes('Duplicate')).length} duplicate rows for deletion)`);
+  reportStage(options, 'Duplicate emails', processedData);
   updateProgress(processedData.length, originalRowCount, 'Marked duplicate emails');
+  await checkpoint(options.signal);
+  
+  // Stage 1b: Free webmail, disposable and role addresses, website consistency
+  updateProgress(0, processedData.length, 'Classifying email types');
+  processedData = processEmailTypes(processedData, emailField, emailTypes, taskOptions);
+  reportStage(options, 'Email types', processedData);
+  processedData = processRoleAccounts(processedData, emailField, isRoleAccount, taskOptions.roleAccountAction);
+  reportStage(options, 'Role accounts', processedData);
+  processedData = processDomainMatch(processedData, emailField, websiteField, emailTypes, taskOptions.flagDomainMismatch);
+  await checkpoint(options.signal);
   
   // Stage 2: Process MX records
   updateProgress(0, processedData.length, 'Processing MX records');
+  await checkpoint(options.signal);
   processedData = await processMXBatch(
     processedData,
     emailField,
-    (processed) => updateProgress(processed, processedData.length, 'Processing MX records')
+    (processed) => updateProgress(processed, processedData.length, 'Processing MX records'),
+    options
   );
+  reportStage(options, 'MX records', processedData);
+  
+  // Suggest corrections for mistyped domains that cannot receive mail
+  processDomainTypos(processedData, emailField, options.emailDomainLists || DEFAULT_EMAIL_DOMAIN_LISTS);
+  
+  // Stage 2b: SPF and DMARC records, when turned on for this task
+  if (taskOptions.checkEmailAuth) {
+    updateProgress(0, processedData.length, 'Checking SPF and DMARC');
+    processedData = await processEmailAuthBatch(
+      processedData,
+      emailField,
+      (processed) => updateProgress(processed, processedData.length, 'Checking SPF and DMARC'),
+      options
+    );
+    reportStage(options, 'SPF and DMARC', processedData);
+  }
   
   // Stage 3: Clean company names and websites
   updateProgress(0, processedData.length, 'Cleaning data');
+  await checkpoint(options.signal);
   const chunkSize = 500;
   for (let i = 0; i < processedData.length; i += chunkSize) {
     const chunkEnd = Math.min(i + chunkSize, processedData.length);
@@ -527,14 +1353,16 @@ export const processSingleEmailCSV = async (
       if (websiteField && row[websiteField]) {
         row['cleaned_website'] = cleanWebsiteUrl(row[websiteField]);
       } else if (row[emailField]) {
-        // Extract domain from email if website field is not available
+        // Extract domain from email if website field is not available,
+        // unless it is a webmail or disposable domain shared by strangers
         try {
-          const emailDomain = row[emailField].split('@')[1];
-          row['cleaned_website'] = emailDomain;
+          const emailDomain = row[emailField].split('@')[1] || '';
+          row['cleaned_website'] = emailTypes.isSharedDomain(emailDomain) ? '' : emailDomain;
         } catch (error) {
           row['cleaned_website'] = '';
         }
       }
+      row['root_domain'] = getRootDomain(row['cleaned_website'] || '');
       
       // Ensure other_dm fields always exist
       row['other_dm_name'] = '';
@@ -543,46 +1371,29 @@ export const processSingleEmailCSV = async (
     }
     
     updateProgress(chunkEnd, processedData.length, 'Cleaning data');
+    await checkpoint(options.signal);
   }
   
-  // Stage 4: Count domain occurrences and mark domains with more than 6 occurrences for deletion
+  // Stage 4: Apply the per-domain contact limit
   updateProgress(0, processedData.length, 'Analyzing domain frequencies');
-  const domainCounts: Record<string, number> = {};
-  
-  // First count all domains (only for rows not already marked for deletion)
-  processedData.forEach(row => {
-    if (row['to_be_deleted'] === 'true') return;
-    
-    const domain = row['cleaned_website'];
-    if (domain && domain.trim() !== '') {
-      domainCounts[domain] = (domainCounts[domain] || 0) + 1;
-    }
-  });
-  
-  // Then mark domains with more than 6 occurrences for deletion
-  processedData.forEach(row => {
-    if (row['to_be_deleted'] === 'true') return;
-    
-    const domain = row['cleaned_website'];
-    if (domain && domain.trim() !== '' && domainCounts[domain] > 6) {
-      row['to_be_deleted'] = 'true';
-      row['deletion_reason'] = `Domain ${domain} appears ${domainCounts[domain]} times (>6)`;
-    }
-  });
+  await checkpoint(options.signal);
+  applyDomainCap(processedData, taskOptions, emailTypes);
   
   console.log(`After marking high-frequency domains: ${processedData.filter(r => r['to_be_deleted'] === 'false').length} rows remain (marked ${processedData.filter(r => r['to_be_deleted'] === 'true' && r['deletion_reason']?.includes('Domain')).length} rows for deletion due to domain frequency)`);
+  reportStage(options, 'Domain frequency', processedData);
   
-  // Stage 5: Round-robin assignment for other_dm_name with improved blank domain handling
+  // Stage 5: Assign other_dm_name following the task's strategy, skipping blank domains
   updateProgress(0, processedData.length, 'Adding alternative contacts');
+  await checkpoint(options.signal);
   
-  // Group rows by domain, skipping blank websites and rows marked for deletion
+  // Group rows by domain, skipping blank websites, webmail domains and rows marked for deletion
   const domainMap: Record<string, CSVRow[]> = {};
   
   processedData.forEach(row => {
     if (row['to_be_deleted'] === 'true') return;
     
-    const domain = row['cleaned_website'];
-    if (domain && domain.trim() !== '') {
+    const domain = getGroupingDomain(row, taskOptions.domainGrouping);
+    if (domain && domain.trim() !== '' && !emailTypes.isSharedDomain(domain)) {
       if (!domainMap[domain]) {
         domainMap[domain] = [];
       }
@@ -593,25 +1404,34 @@ export const processSingleEmailCSV = async (
   // Debug domain grouping
   console.log(`Found ${Object.keys(domainMap).length} unique domains for processing`);
   
-  // Process domains with multiple contacts for round-robin assignment
+  // Process domains with multiple contacts
+  const otherDmStrategy = taskOptions.otherDmStrategy || DEFAULT_TASK_OPTIONS.otherDmStrategy;
+  const random = createSeededRandom(taskOptions.otherDmSeed ?? DEFAULT_TASK_OPTIONS.otherDmSeed);
   let enrichedCount = 0;
   
   Object.entries(domainMap).forEach(([domain, rows]) => {
     // Skip if domain is blank or has only one contact
     if (domain.trim() === '' || rows.length <= 1) {
-      console.log(`Domain ${domain || 'BLANK'} has ${rows.length} contacts. Skipping round-robin...`);
+      console.log(`Domain ${domain || 'BLANK'} has ${rows.length} contacts. Skipping assignment...`);
       return;
     }
     
-    console.log(`Domain ${domain} has ${rows.length} contacts. Processing for round-robin...`);
+    console.log(`Domain ${domain} has ${rows.length} contacts. Assigning alternative contacts (${otherDmStrategy})...`);
     
     // For domains with multiple rows, assign other_dm_name to each row
     // by referring to other rows in the same domain
     for (let i = 0; i < rows.length; i++) {
       const currentRow = rows[i];
-      // Next person in the same domain (with wraparound)
-      const nextIndex = (i + 1) % rows.length;
-      const nextRow = rows[nextIndex];
+      // Another person in the same domain. Deprioritised role accounts still
+      // get an alternative contact but are never used as one.
+      const nextRow = pickOtherContact(
+        rows,
+        i,
+        row => isContactCandidate(row, taskOptions.roleAccountAction),
+        otherDmStrategy,
+        random
+      );
+      if (!nextRow) continue;
       
       // Get all possible name fields from the next row
       let otherDmName = '';
@@ -661,12 +1481,13 @@ export const processSingleEmailCSV = async (
         currentRow['other_dm_title'] = otherDmTitle;
         enrichedCount++;
       } else {
-        console.log(`Could not find a valid name for domain ${domain} in row ${nextIndex}`);
+        console.log(`Could not find a valid name for domain ${domain} in row with email "${nextRow[emailField]}"`);
       }
     }
   });
   
   console.log(`Successfully enriched ${enrichedCount} rows with other_dm_name`);
+  reportStage(options, 'Alternative contacts', processedData);
   
   updateProgress(processedData.length, processedData.length, 'Complete');
   console.log(`Single-email processing complete: ${processedData.filter(r => r['to_be_deleted'] === 'false').length} valid rows from ${originalRowCount} original rows`);
@@ -680,10 +1501,14 @@ export const processSingleEmailCSV = async (
 export const processMultiEmailCSV = async (
   data: CSVData,
   mappedColumns: Record<string, string>,
-  updateProgress: (processed: number, total: number, stage: string) => void
+  updateProgress: (processed: number, total: number, stage: string) => void,
+  options: ProcessingOptions = {}
 ): Promise<CSVData> => {
   console.log(`Processing multi-email CSV with ${data.length} rows`);
   const originalRowCount = data.length;
+  const taskOptions = options.taskOptions || DEFAULT_TASK_OPTIONS;
+  const emailTypes = createEmailTypeClassifier(options.emailDomainLists || DEFAULT_EMAIL_DOMAIN_LISTS);
+  const isRoleAccount = createRoleAccountMatcher(options.roleAccountGroups || DEFAULT_ROLE_ACCOUNT_GROUPS);
   
   // Identify all email columns that start with email_
   const emailColumns = Object.keys(mappedColumns).filter(col => col.startsWith('email_'));
@@ -699,6 +1524,7 @@ export const processMultiEmailCSV = async (
     const emailsWithData: Array<{
       emailColumn: string,
       email: string,
+      syntaxError: string | null,
       fullName?: string,
       firstName?: string,
       lastName?: string,
@@ -709,8 +1535,8 @@ export const processMultiEmailCSV = async (
     
     // Gather all valid emails and their associated data
     emailColumns.forEach(emailCol => {
-      const email = (row[mappedColumns[emailCol]] || '').trim().toLowerCase();
-      if (!email || !email.includes('@')) return; // Skip invalid emails
+      const { email, error } = checkEmail(row[mappedColumns[emailCol]] || '');
+      if (!email) return; // Skip empty email columns
       
       // Extract the prefix (e.g., "email_1" from "email_1")
       const prefix = emailCol;
@@ -734,6 +1560,7 @@ export const processMultiEmailCSV = async (
       emailsWithData.push({
         emailColumn: emailCol,
         email: email,
+        syntaxError: error,
         fullName: row[mappedColumns[fullNameField] || ''] || '',
         firstName: row[mappedColumns[firstNameField] || ''] || '',
         lastName: row[mappedColumns[lastNameField] || ''] || '',
@@ -743,7 +1570,7 @@ export const processMultiEmailCSV = async (
       });
     });
     
-    // If we found valid emails, create a row for each one
+    // If we found any emails, create a row for each one
     if (emailsWithData.length > 0) {
       totalEmailsFound += emailsWithData.length;
       
@@ -764,8 +1591,13 @@ export const processMultiEmailCSV = async (
         newRow['title'] = emailData.title || '';
         newRow['phone'] = emailData.phone || '';
         
-        // Set to_be_deleted flag (default to false)
-        newRow['to_be_deleted'] = 'false';
+        // Malformed addresses are kept so the reason shows up in the output
+        if (emailData.syntaxError) {
+          newRow['to_be_deleted'] = 'true';
+          newRow['deletion_reason'] = getInvalidEmailReason(emailData.syntaxError);
+        } else {
+          newRow['to_be_deleted'] = 'false';
+        }
         
         // For debugging
         newRow['_source_column'] = emailData.emailColumn;
@@ -795,6 +1627,8 @@ export const processMultiEmailCSV = async (
   });
   
   console.log(`Expanded to ${expandedData.length} email rows (total emails found: ${totalEmailsFound})`);
+  reportStage(options, 'Expanded email columns', expandedData);
+  await checkpoint(options.signal);
   
   if (expandedData.length === 0) {
     console.log("No valid emails found in the multi-email CSV");
@@ -807,6 +1641,8 @@ export const processMultiEmailCSV = async (
   
   // First pass: identify duplicates
   expandedData.forEach((row, index) => {
+    if (row['to_be_deleted'] === 'true') return;
+    
     const email = row['email'].toLowerCase().trim();
     if (uniqueEmails.has(email)) {
       duplicateEmails.add(email);
@@ -822,7 +1658,7 @@ export const processMultiEmailCSV = async (
     duplicateEmails.forEach(email => {
       const duplicateRows = expandedData
         .map((row, index) => ({ row, index }))
-        .filter(item => item.row['email'].toLowerCase().trim() === email);
+        .filter(item => item.row['to_be_deleted'] === 'false' && item.row['email'].toLowerCase().trim() === email);
       
       if (duplicateRows.length <= 1) return;
       
@@ -852,17 +1688,46 @@ export const processMultiEmailCSV = async (
   }
   
   console.log(`After marking duplicates: ${expandedData.filter(r => r['to_be_deleted'] === 'false').length} unique rows (marked ${expandedData.filter(r => r['to_be_deleted'] === 'true').length} duplicate rows for deletion)`);
+  reportStage(options, 'Duplicate emails', expandedData);
+  
+  // Free webmail, disposable and role addresses, website consistency
+  updateProgress(0, expandedData.length, 'Classifying email types');
+  processEmailTypes(expandedData, 'email', emailTypes, taskOptions);
+  reportStage(options, 'Email types', expandedData);
+  processRoleAccounts(expandedData, 'email', isRoleAccount, taskOptions.roleAccountAction);
+  reportStage(options, 'Role accounts', expandedData);
+  processDomainMatch(expandedData, 'email', 'website', emailTypes, taskOptions.flagDomainMismatch);
+  await checkpoint(options.signal);
   
   // Now perform MX lookup and cleaning on expanded data
   updateProgress(0, expandedData.length, 'Processing MX records');
+  await checkpoint(options.signal);
   let processedData = await processMXBatch(
     expandedData,
     'email',
-    (processed) => updateProgress(processed, expandedData.length, 'Processing MX records')
+    (processed) => updateProgress(processed, expandedData.length, 'Processing MX records'),
+    options
   );
+  reportStage(options, 'MX records', processedData);
+  
+  // Suggest corrections for mistyped domains that cannot receive mail
+  processDomainTypos(processedData, 'email', options.emailDomainLists || DEFAULT_EMAIL_DOMAIN_LISTS);
+  
+  // SPF and DMARC records, when turned on for this task
+  if (taskOptions.checkEmailAuth) {
+    updateProgress(0, processedData.length, 'Checking SPF and DMARC');
+    processedData = await processEmailAuthBatch(
+      processedData,
+      'email',
+      (processed) => updateProgress(processed, processedData.length, 'Checking SPF and DMARC'),
+      options
+    );
+    reportStage(options, 'SPF and DMARC', processedData);
+  }
   
   // Clean company names and websites
   updateProgress(0, processedData.length, 'Cleaning data');
+  await checkpoint(options.signal);
   const chunkSize = 500;
   for (let i = 0; i < processedData.length; i += chunkSize) {
     const chunkEnd = Math.min(i + chunkSize, processedData.length);
@@ -879,13 +1744,15 @@ export const processMultiEmailCSV = async (
       if (row['website']) {
         row['cleaned_website'] = cleanWebsiteUrl(row['website']);
       } else if (row['email']) {
+        // Webmail and disposable domains are shared by strangers, so they do not count as a website
         try {
-          const emailDomain = row['email'].split('@')[1];
-          row['cleaned_website'] = emailDomain;
+          const emailDomain = row['email'].split('@')[1] || '';
+          row['cleaned_website'] = emailTypes.isSharedDomain(emailDomain) ? '' : emailDomain;
         } catch (error) {
           row['cleaned_website'] = '';
         }
       }
+      row['root_domain'] = getRootDomain(row['cleaned_website'] || '');
       
       // Ensure all other_dm fields exist
       if (row['other_dm_name'] === undefined) row['other_dm_name'] = '';
@@ -894,46 +1761,29 @@ export const processMultiEmailCSV = async (
     }
     
     updateProgress(chunkEnd, processedData.length, 'Cleaning data');
+    await checkpoint(options.signal);
   }
   
-  // Count domain occurrences and mark domains with more than 6 occurrences for deletion
+  // Apply the per-domain contact limit
   updateProgress(0, processedData.length, 'Analyzing domain frequencies');
-  const domainCounts: Record<string, number> = {};
-  
-  // First count all domains (only for rows not already marked for deletion)
-  processedData.forEach(row => {
-    if (row['to_be_deleted'] === 'true') return;
-    
-    const domain = row['cleaned_website'];
-    if (domain && domain.trim() !== '') {
-      domainCounts[domain] = (domainCounts[domain] || 0) + 1;
-    }
-  });
-  
-  // Then mark domains with more than 6 occurrences for deletion
-  processedData.forEach(row => {
-    if (row['to_be_deleted'] === 'true') return;
-    
-    const domain = row['cleaned_website'];
-    if (domain && domain.trim() !== '' && domainCounts[domain] > 6) {
-      row['to_be_deleted'] = 'true';
-      row['deletion_reason'] = `Domain ${domain} appears ${domainCounts[domain]} times (>6)`;
-    }
-  });
+  await checkpoint(options.signal);
+  applyDomainCap(processedData, taskOptions, emailTypes);
   
   console.log(`After marking high-frequency domains: ${processedData.filter(r => r['to_be_deleted'] === 'false').length} rows remain (marked ${processedData.filter(r => r['to_be_deleted'] === 'true' && r['deletion_reason']?.includes('Domain')).length} rows for deletion due to domain frequency)`);
+  reportStage(options, 'Domain frequency', processedData);
   
-  // Round-robin assignment for other_dm_name - skip blank domains
+  // Assign other_dm_name following the task's strategy - skip blank domains
   updateProgress(0, processedData.length, 'Adding alternative contacts');
+  await checkpoint(options.signal);
   
-  // Group rows by domain for round-robin assignment, skipping blank domains and rows marked for deletion
+  // Group rows by domain for assignment, skipping blank and webmail domains and rows marked for deletion
   const domainMap: Record<string, CSVRow[]> = {};
   
   processedData.forEach(row => {
     if (row['to_be_deleted'] === 'true') return;
     
-    const domain = row['cleaned_website'];
-    if (domain && domain.trim() !== '') {
+    const domain = getGroupingDomain(row, taskOptions.domainGrouping);
+    if (domain && domain.trim() !== '' && !emailTypes.isSharedDomain(domain)) {
       if (!domainMap[domain]) {
         domainMap[domain] = [];
       }
@@ -941,19 +1791,20 @@ export const processMultiEmailCSV = async (
     }
   });
   
-  // Process domains with multiple contacts using round-robin assignment
+  // Process domains with multiple contacts
+  const otherDmStrategy = taskOptions.otherDmStrategy || DEFAULT_TASK_OPTIONS.otherDmStrategy;
+  const random = createSeededRandom(taskOptions.otherDmSeed ?? DEFAULT_TASK_OPTIONS.otherDmSeed);
   let enrichedCount = 0;
   
   Object.entries(domainMap).forEach(([domain, rows]) => {
     // Skip if domain has only one contact
     if (domain.trim() === '' || rows.length <= 1) {
-      console.log(`Domain ${domain || 'BLANK'} has ${rows.length} contacts. Skipping round-robin...`);
+      console.log(`Domain ${domain || 'BLANK'} has ${rows.length} contacts. Skipping assignment...`);
       return;
     }
     
-    // Filter valid contacts (have name and non-generic email)
+    // Filter valid contacts (have a name)
     const validContacts = rows.filter(row => {
-      const email = row['email'] || '';
       const fullName = row['fullName'] || row['full_name'] || '';
       const firstName = row['firstName'] || row['first_name'] || '';
       const lastName = row['lastName'] || row['last_name'] || '';
@@ -961,18 +1812,22 @@ export const processMultiEmailCSV = async (
       const hasFirstAndLastName = (firstName && firstName.trim() !== '') && 
                                  (lastName && lastName.trim() !== '');
       
-      // Contact must have a name and non-generic email
-      return (hasFullName || hasFirstAndLastName) && !isGenericEmail(email);
+      return hasFullName || hasFirstAndLastName;
     });
     
     if (validContacts.length > 1) {
-      console.log(`Domain ${domain}: ${validContacts.length} valid contacts found for round-robin assignment`);
+      console.log(`Domain ${domain}: ${validContacts.length} valid contacts found for ${otherDmStrategy} assignment`);
       
-      // Assign other_dm_name in round-robin fashion
       validContacts.forEach((currentContact, index) => {
-        // Get the next contact in the array (round-robin style)
-        const nextIndex = (index + 1) % validContacts.length;
-        const nextContact = validContacts[nextIndex];
+        // Deprioritised role accounts still get an alternative contact but are never used as one
+        const nextContact = pickOtherContact(
+          validContacts,
+          index,
+          row => isContactCandidate(row, taskOptions.roleAccountAction),
+          otherDmStrategy,
+          random
+        );
+        if (!nextContact) return;
         
         // Get the person's full name from nextContact
         let otherDmName = '';
@@ -1021,11 +1876,12 @@ export const processMultiEmailCSV = async (
         }
       });
     } else {
-      console.log(`Domain ${domain}: Only ${validContacts.length} valid contacts found, skipping round-robin`);
+      console.log(`Domain ${domain}: Only ${validContacts.length} valid contacts found, skipping assignment`);
     }
   });
   
   console.log(`Successfully enriched ${enrichedCount} rows with other_dm_name`);
+  reportStage(options, 'Alternative contacts', processedData);
   
   // Final verification - ensure all rows have other_dm fields
   processedData.forEach(row => {
@@ -1041,56 +1897,74 @@ export const processMultiEmailCSV = async (
 };
 
 /**
- * Save CSV data as a downloadable file - modified to handle to_be_deleted column
+ * Run the pipeline matching the file type and strip excluded columns from the result
  */
-export const downloadCSV = (data: CSVData, filename: string): void => {
-  if (!data.length) {
-    toast.error('No data to download');
-    return;
+export const runPipeline = async (
+  fileType: CSVFileType,
+  data: CSVData,
+  mappedColumns: Record<string, string>,
+  updateProgress: (processed: number, total: number, stage: string) => void,
+  options: ProcessingOptions = {}
+): Promise<CSVData> => {
+  let result: CSVData = [];
+  
+  // One scheduler for the whole run, so MX and TXT lookups share its limits and counters
+  const settings = options.lookupSettings || DEFAULT_LOOKUP_SETTINGS;
+  options = {
+    ...options,
+    resolver: createScheduledResolver(options.resolver || createResolver({ type: 'google' }), {
+      concurrency: settings.concurrency,
+      maxRetries: settings.maxRetries,
+      timeoutMs: settings.requestTimeoutSeconds * 1000,
+      signal: options.signal,
+      onStats: options.onLookupStats
+    })
+  };
+  
+  if (fileType === 'domain-only') {
+    result = await processDomainOnlyCSV(
+      data,
+      mappedColumns['website'],
+      (processed) => updateProgress(processed, data.length, 'Cleaning websites'),
+      options,
+      mappedColumns['email'] || ''
+    );
+  } else if (fileType === 'single-email') {
+    result = await processSingleEmailCSV(
+      data,
+      mappedColumns['email'],
+      mappedColumns['website'] || '',
+      mappedColumns['company'] || '',
+      updateProgress,
+      options
+    );
+  } else if (fileType === 'multi-email') {
+    result = await processMultiEmailCSV(
+      data,
+      mappedColumns,
+      updateProgress,
+      options
+    );
   }
   
-  // Get all headers from the data
-  const allHeaders = new Set<string>();
-  
-  // First collect all unique headers across all rows
-  data.forEach(row => {
-    Object.keys(row).forEach(key => allHeaders.add(key));
-  });
-  
-  // Add critical fields if they don't exist
-  ['other_dm_name', 'other_dm_email', 'other_dm_title', 'to_be_deleted', 'deletion_reason'].forEach(field => {
-    allHeaders.add(field);
-  });
+  console.log(`Processing complete: ${result.length} rows in final result (from ${data.length} original rows)`);
   
-  // Filter out excluded columns
-  const filteredHeaders = Array.from(allHeaders).filter(header => 
-    !excludedColumns.includes(header.toLowerCase())
-  );
-  
-  // Convert to array and ensure each row has all fields
-  const processedData = data.map(row => {
-    const newRow: CSVRow = {};
-    // Only include non-excluded headers in each row
-    filteredHeaders.forEach(header => {
-      newRow[header] = row[header] !== undefined ? row[header] : '';
+  // Ensure result has other_dm fields in each row and filter out excluded columns
+  return result.map(row => {
+    const filteredRow: CSVRow = {};
+    
+    // Copy only non-excluded columns
+    Object.keys(row).forEach(key => {
+      if (!excludedColumns.includes(key.toLowerCase())) {
+        filteredRow[key] = row[key];
+      }
     });
-    return newRow;
+    
+    // Ensure other_dm fields exist
+    filteredRow.other_dm_name = row.other_dm_name !== undefined ? row.other_dm_name : '';
+    filteredRow.other_dm_email = row.other_dm_email !== undefined ? row.other_dm_email : '';
+    filteredRow.other_dm_title = row.other_dm_title !== undefined ? row.other_dm_title : '';
+    
+    return filteredRow;
   });
-  
-  const csvContent = dataToCSV(filteredHeaders, processedData);
-  
-  // Create a blob and download link
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  
-  link.setAttribute('href', url);
-  link.setAttribute('download', filename || 'download.csv');
-  link.style.visibility = 'hidden';
-  
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  
-  toast.success('CSV downloaded successfully');
 };
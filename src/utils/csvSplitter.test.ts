@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { splitData, UNKNOWN_PROVIDER } from './csvSplitter';
+
+const rowsFor = (domain: string, root: string, count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    email: `contact${index}@${domain}`,
+    cleaned_website: domain,
+    root_domain: root,
+    mx_provider: ''
+  }));
+
+describe('splitData', () => {
+  const data = [
+    ...rowsFor('acme.co.uk', 'acme.co.uk', 2),
+    ...rowsFor('beta.com', 'beta.com', 2),
+    ...rowsFor('shop.acme.co.uk', 'acme.co.uk', 1),
+  ];
+
+  it('cuts data into chunks of N rows or into N files', () => {
+    expect(splitData(data, { type: 'rows-per-file', rowsPerFile: 2 }).map(part => part.data.length)).toEqual([2, 2, 1]);
+    expect(splitData(data, { type: 'file-count', fileCount: 2 }).map(part => part.data.length)).toEqual([3, 2]);
+  });
+
+  it('keeps subdomains with their root domain when grouping by root domain', () => {
+    const parts = splitData(data, { type: 'domain', rowsPerFile: 3, grouping: 'root-domain' });
+
+    expect(parts.map(part => part.data.map(row => row.cleaned_website))).toEqual([
+      ['acme.co.uk', 'acme.co.uk', 'shop.acme.co.uk'],
+      ['beta.com', 'beta.com'],
+    ]);
+  });
+
+  it('keeps website hosts apart when grouping by website', () => {
+    const parts = splitData(data, { type: 'domain', rowsPerFile: 3, grouping: 'website' });
+
+    expect(parts.map(part => part.data.length)).toEqual([2, 3]);
+  });
+
+  it('orders provider files with the big providers first and outcomes last', () => {
+    const providers = ['nxdomain', 'zoho', 'google', '', 'microsoft', 'other-hosted'];
+    const rows = providers.map(mx_provider => ({ mx_provider }));
+
+    expect(splitData(rows, { type: 'provider' }).map(part => part.name))
+      .toEqual(['google', 'microsoft', 'zoho', 'other-hosted', 'nxdomain', UNKNOWN_PROVIDER]);
+  });
+
+  it('spreads large providers evenly over several files', () => {
+    const rows = Array.from({ length: 5 }, () => ({ mx_provider: 'google' }));
+
+    expect(splitData(rows, { type: 'provider', maxRowsPerFile: 4 }).map(part => [part.name, part.data.length]))
+      .toEqual([['google_1', 3], ['google_2', 2]]);
+  });
+
+  it('gives every column value its own file with a safe name', () => {
+    const rows = [{ city: 'New York' }, { city: 'new york!' }, { city: '' }];
+
+    expect(splitData(rows, { type: 'column', column: 'city' }).map(part => part.name))
+      .toEqual(['new_york', 'new_york_2', 'blank']);
+  });
+});
@@ -0,0 +1,202 @@
+import { toast } from 'sonner';
+import { strToU8, zipSync } from 'fflate';
+import { CSVData, CSVRow, DomainGrouping, getGroupingDomain } from './csvProcessing';
+import { buildCSV, triggerDownload, withExtension } from './csvExport';
+
+export type SplitStrategy =
+  | { type: 'rows-per-file'; rowsPerFile: number }
+  | { type: 'file-count'; fileCount: number }
+  | { type: 'domain'; rowsPerFile: number; grouping: DomainGrouping } // Chunks of about N rows without splitting a domain
+  | { type: 'column'; column: string } // One file per distinct value
+  | { type: 'provider'; maxRowsPerFile?: number }; // One file per mx_provider, large ones optionally chunked
+
+export type SplitPart = {
+  name: string; // File name suffix, e.g. "part_1" or "google"
+  data: CSVData;
+};
+
+/**
+ * File name used for rows without an MX provider (no email to look up)
+ */
+export const UNKNOWN_PROVIDER = 'unknown_no_mx';
+
+// The biggest providers are listed first and lookup outcomes last; other
+// catalogue providers go in between in the order they were seen
+const LEADING_PROVIDERS = ['google', 'microsoft'];
+const TRAILING_PROVIDERS = ['other-hosted', 'no-mx', 'nxdomain', 'lookup-failed', UNKNOWN_PROVIDER];
+
+/**
+ * Turn a column value into something safe to use in a file name
+ */
+const toFileNamePart = (value: string): string => {
+  const cleaned = value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9.-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return cleaned || 'blank';
+};
+
+/**
+ * Cut data into consecutive chunks of at most `size` rows
+ */
+const chunkRows = (data: CSVData, size: number): SplitPart[] => {
+  const parts: SplitPart[] = [];
+  const chunkSize = Math.max(1, Math.floor(size));
+
+  for (let i = 0; i < data.length; i += chunkSize) {
+    parts.push({ name: `part_${parts.length + 1}`, data: data.slice(i, i + chunkSize) });
+  }
+
+  return parts;
+};
+
+/**
+ * Group rows by a key, keeping first-seen order
+ */
+const groupRows = (data: CSVData, getKey: (row: CSVRow) => string): Map<string, CSVData> => {
+  const groups = new Map<string, CSVData>();
+
+  data.forEach(row => {
+    const value = getKey(row).trim();
+    if (!groups.has(value)) {
+      groups.set(value, []);
+    }
+    groups.get(value).push(row);
+  });
+
+  return groups;
+};
+
+/**
+ * Group rows by the value of a column, keeping first-seen order
+ */
+export const groupRowsByColumn = (data: CSVData, column: string): Map<string, CSVData> => {
+  return groupRows(data, row => row[column] || '');
+};
+
+/**
+ * Pack domain groups into files of about `rowsPerFile` rows. A domain with
+ * more rows than that gets a file of its own rather than being split. Domains
+ * are grouped the same way as for the domain cap and other_dm.
+ */
+const splitByDomain = (data: CSVData, rowsPerFile: number, grouping: DomainGrouping): SplitPart[] => {
+  const parts: SplitPart[] = [];
+  let current: CSVData = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      parts.push({ name: `part_${parts.length + 1}`, data: current });
+      current = [];
+    }
+  };
+
+  groupRows(data, row => getGroupingDomain(row, grouping)).forEach(rows => {
+    if (current.length > 0 && current.length + rows.length > rowsPerFile) {
+      flush();
+    }
+    current.push(...rows);
+  });
+  flush();
+
+  return parts;
+};
+
+/**
+ * One part per mail provider. Providers larger than `maxRowsPerFile` are cut
+ * into equally sized chunks so they can be spread over several senders.
+ */
+const splitByProvider = (data: CSVData, maxRowsPerFile?: number): SplitPart[] => {
+  const groups = Array.from(groupRowsByColumn(data, 'mx_provider').entries())
+    .map(([provider, rows]) => [provider ? toFileNamePart(provider) : UNKNOWN_PROVIDER, rows] as [string, CSVData])
+    .sort(([a], [b]) => {
+      const rank = (provider: string) => {
+        if (LEADING_PROVIDERS.includes(provider)) return LEADING_PROVIDERS.indexOf(provider);
+        if (TRAILING_PROVIDERS.includes(provider)) return LEADING_PROVIDERS.length + 1 + TRAILING_PROVIDERS.indexOf(provider);
+        return LEADING_PROVIDERS.length;
+      };
+      return rank(a) - rank(b);
+    });
+
+  return groups.flatMap(([provider, rows]) => {
+    if (!maxRowsPerFile || maxRowsPerFile <= 0 || rows.length <= maxRowsPerFile) {
+      return [{ name: provider, data: rows }];
+    }
+
+    // Spread rows evenly instead of leaving a small remainder in the last file
+    const fileCount = Math.ceil(rows.length / maxRowsPerFile);
+    return chunkRows(rows, Math.ceil(rows.length / fileCount)).map((part, index) => ({
+      name: `${provider}_${index + 1}`,
+      data: part.data
+    }));
+  });
+};
+
+/**
+ * Split data into parts according to the chosen strategy
+ */
+export const splitData = (data: CSVData, strategy: SplitStrategy): SplitPart[] => {
+  if (data.length === 0) return [];
+
+  switch (strategy.type) {
+    case 'rows-per-file':
+      return chunkRows(data, strategy.rowsPerFile);
+    case 'file-count':
+      return chunkRows(data, Math.ceil(data.length / Math.max(1, strategy.fileCount)));
+    case 'domain':
+      return splitByDomain(data, Math.max(1, strategy.rowsPerFile), strategy.grouping);
+    case 'column': {
+      const usedNames = new Map<string, number>();
+      return Array.from(groupRowsByColumn(data, strategy.column).entries()).map(([value, rows]) => {
+        // Different values can map to the same file name once cleaned
+        const baseName = toFileNamePart(value);
+        const count = (usedNames.get(baseName) || 0) + 1;
+        usedNames.set(baseName, count);
+        return { name: count === 1 ? baseName : `${baseName}_${count}`, data: rows };
+      });
+    }
+    case 'provider':
+      return splitByProvider(data, strategy.maxRowsPerFile);
+  }
+};
+
+/**
+ * Download split parts as separate CSV files or as a single ZIP bundle.
+ * Excluded columns are dropped the same way as in downloadCSV. The ZIP also
+ * gets a summary.csv with the row count of every file.
+ */
+export const downloadSplitParts = async (
+  parts: SplitPart[],
+  baseFileName: string,
+  asZip: boolean
+): Promise<void> => {
+  if (parts.length === 0) {
+    toast.error('No data to download');
+    return;
+  }
+
+  const baseName = withExtension(baseFileName, 'csv').replace(/\.csv$/, '');
+
+  if (asZip) {
+    const files: Record<string, Uint8Array> = {};
+    const summary = ['file,rows'];
+    parts.forEach(part => {
+      const partFileName = `${baseName}_${part.name}.csv`;
+      files[partFileName] = strToU8(buildCSV(part.data));
+      summary.push(`"${partFileName.replace(/"/g, '""')}",${part.data.length}`);
+    });
+    files['summary.csv'] = strToU8(summary.join('\n'));
+    triggerDownload(new Blob([zipSync(files)], { type: 'application/zip' }), `${baseName}_split.zip`);
+  } else {
+    for (const part of parts) {
+      const blob = new Blob([buildCSV(part.data)], { type: 'text/csv;charset=utf-8;' });
+      triggerDownload(blob, `${baseName}_${part.name}.csv`);
+      // Browsers drop downloads that are triggered too quickly in a row
+      await new Promise(resolve => setTimeout(resolve, 300));
+    }
+  }
+
+  toast.success(`Downloaded ${parts.length} file${parts.length === 1 ? '' : 's'}`, {
+    description: parts.map(part => `${part.name}: ${part.data.length}`).join(', ')
+  });
+};
@@ -0,0 +1,51 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { CSVData, CSVRow } from './csvProcessing';
+
+// Parsed uploads can run into hundreds of thousands of rows. Rather than
+// copying them through React state, components hold a small handle and look
+// the rows up here when they actually need them.
+
+export type DatasetHandle = {
+  id: string;
+  fileName: string;
+  headers: string[];
+  rowCount: number;
+};
+
+const datasets = new Map<string, CSVData>();
+
+/**
+ * Register an empty dataset and return its id
+ */
+export const createDataset = (): string => {
+  const id = uuidv4();
+  datasets.set(id, []);
+  return id;
+};
+
+/**
+ * Append a batch of rows to an existing dataset
+ */
+export const appendRows = (id: string, rows: CSVRow[]): void => {
+  const data = datasets.get(id);
+  if (!data) return;
+
+  for (let i = 0; i < rows.length; i++) {
+    data.push(rows[i]);
+  }
+};
+
+/**
+ * Get the rows behind a handle (empty if the dataset was released)
+ */
+export const getDatasetRows = (handle: DatasetHandle | null): CSVData => {
+  if (!handle) return [];
+  return datasets.get(handle.id) || [];
+};
+
+/**
+ * Drop a dataset so its rows can be garbage collected
+ */
+export const releaseDataset = (id: string): void => {
+  datasets.delete(id);
+};
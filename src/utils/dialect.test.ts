@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { detectEncoding, sniffDelimiter, sniffDialect, sniffQuote } from './dialect';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('detectEncoding', () => {
+  it('recognises byte order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8-bom');
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+  });
+
+  it('recognises UTF-16 without a byte order mark', () => {
+    const text = 'name,email\n';
+    const bytes = new Uint8Array(text.length * 2);
+    for (let i = 0; i < text.length; i++) {
+      bytes[i * 2] = text.charCodeAt(i);
+    }
+    expect(detectEncoding(bytes)).toBe('utf-16le');
+  });
+
+  it('falls back to Windows-1252 for invalid UTF-8', () => {
+    // "Müller" as Windows-1252
+    expect(detectEncoding(new Uint8Array([0x4d, 0xfc, 0x6c, 0x6c, 0x65, 0x72]))).toBe('windows-1252');
+    expect(detectEncoding(utf8('Müller'))).toBe('utf-8');
+  });
+
+  it('does not reject UTF-8 cut off in the middle of a character', () => {
+    expect(detectEncoding(utf8('Müller').slice(0, 2))).toBe('utf-8');
+  });
+});
+
+describe('sniffDelimiter', () => {
+  it('picks the delimiter with the most consistent field count', () => {
+    expect(sniffDelimiter('name;city;email\nAcme;Köln;a@acme.de\nBeta, Inc;Bonn;b@beta.de\n')).toBe(';');
+    expect(sniffDelimiter('name\tcity\nAcme\tParis\nBeta\tLyon\n')).toBe('\t');
+    expect(sniffDelimiter('name|city\nAcme|Paris\n')).toBe('|');
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    const text = 'name,notes\n"Acme; Ltd","a; b; c"\n"Beta; Ltd","d; e"\n';
+    expect(sniffDelimiter(text)).toBe(',');
+  });
+
+  it('defaults to a comma when nothing splits', () => {
+    expect(sniffDelimiter('email\na@acme.com\n')).toBe(',');
+  });
+});
+
+describe('sniffQuote', () => {
+  it('prefers single quotes only when they clearly dominate', () => {
+    expect(sniffQuote("'name','city'\n'Acme','Paris'\n")).toBe("'");
+    expect(sniffQuote('"name","note"\n"Acme","it\'s"\n')).toBe('"');
+  });
+});
+
+describe('sniffDialect', () => {
+  it('detects encoding, quote and delimiter together', () => {
+    const bytes = utf8('\uFEFF"name";"city"\n"Acme";"Köln"\n');
+    expect(sniffDialect(bytes)).toEqual({ encoding: 'utf-8-bom', delimiter: ';', quote: '"' });
+  });
+});
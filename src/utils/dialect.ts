@@ -0,0 +1,180 @@
+import { createRecordReader } from './csvParser';
+
+// Detection of the text encoding and CSV dialect of an uploaded file
+
+export type CSVEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type CSVDialect = {
+  encoding: CSVEncoding;
+  delimiter: string;
+  quote: string;
+};
+
+export const ENCODING_OPTIONS: { value: CSVEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-8-bom', label: 'UTF-8 with BOM' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western European)' },
+];
+
+export const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const QUOTE_OPTIONS: { value: string; label: string }[] = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+];
+
+export const DEFAULT_DIALECT: CSVDialect = { encoding: 'utf-8', delimiter: ',', quote: '"' };
+
+/**
+ * Number of bytes read from the start of a file for sniffing
+ */
+export const SAMPLE_SIZE = 64 * 1024;
+
+const SNIFF_MAX_RECORDS = 50;
+
+/**
+ * Map an encoding to the label understood by TextDecoder. TextDecoder drops
+ * a leading BOM for all of the Unicode encodings.
+ */
+export const getDecoderLabel = (encoding: CSVEncoding): string => {
+  return encoding === 'utf-8-bom' ? 'utf-8' : encoding;
+};
+
+/**
+ * Detect the encoding from the byte order mark, falling back to heuristics
+ */
+export const detectEncoding = (bytes: Uint8Array): CSVEncoding => {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8-bom';
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+
+  // UTF-16 without a BOM: mostly-ASCII text has a zero in every other byte
+  const checked = Math.min(bytes.length, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < checked; i++) {
+    if (bytes[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  if (oddZeros > checked / 4 && evenZeros < checked / 20) return 'utf-16le';
+  if (evenZeros > checked / 4 && oddZeros < checked / 20) return 'utf-16be';
+
+  // Anything that is not valid UTF-8 is most likely an Excel/Windows export
+  try {
+    // stream: true so a multi-byte character cut off by the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch (error) {
+    return 'windows-1252';
+  }
+};
+
+/**
+ * Decode a byte sample with the given encoding
+ */
+export const decodeSample = (bytes: Uint8Array, encoding: CSVEncoding): string => {
+  return new TextDecoder(getDecoderLabel(encoding)).decode(bytes, { stream: true });
+};
+
+/**
+ * Guess the quote character by counting quotes that open or close a field
+ */
+export const sniffQuote = (text: string): string => {
+  const countFieldQuotes = (quote: string) => {
+    const pattern = new RegExp(`(^|[,;\\t|\\r\\n])${quote}|${quote}($|[,;\\t|\\r\\n])`, 'g');
+    return (text.match(pattern) || []).length;
+  };
+
+  const doubleQuotes = countFieldQuotes('"');
+  const singleQuotes = countFieldQuotes("'");
+
+  return singleQuotes > doubleQuotes * 2 ? "'" : '"';
+};
+
+/**
+ * Guess the delimiter by parsing the sample with each candidate and picking
+ * the one that gives the most consistent number of fields per record
+ */
+export const sniffDelimiter = (text: string, quote = '"'): string => {
+  let bestDelimiter = ',';
+  let bestScore = -1;
+
+  for (const { value: delimiter } of DELIMITER_OPTIONS) {
+    const fieldCounts: number[] = [];
+    const reader = createRecordReader(
+      fields => {
+        if (fieldCounts.length < SNIFF_MAX_RECORDS) {
+          fieldCounts.push(fields.length);
+        }
+      },
+      () => {},
+      { delimiter, quote }
+    );
+
+    // The last record of the sample is probably cut off, so it is not finished
+    reader.push(text);
+
+    if (fieldCounts.length === 0) continue;
+
+    // Most common field count and how many records have it
+    const frequencies = new Map<number, number>();
+    fieldCounts.forEach(count => frequencies.set(count, (frequencies.get(count) || 0) + 1));
+    let modeCount = 1;
+    let modeFrequency = 0;
+    frequencies.forEach((frequency, count) => {
+      if (frequency > modeFrequency || (frequency === modeFrequency && count > modeCount)) {
+        modeCount = count;
+        modeFrequency = frequency;
+      }
+    });
+
+    // A delimiter that never splits anything is not a candidate
+    if (modeCount <= 1) continue;
+
+    const consistency = modeFrequency / fieldCounts.length;
+    const score = consistency * 1000 + Math.min(modeCount, 999);
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  }
+
+  return bestDelimiter;
+};
+
+/**
+ * Read the first bytes of a file for sniffing and previews
+ */
+export const readFileSample = async (file: File, size = SAMPLE_SIZE): Promise<Uint8Array> => {
+  const buffer = await file.slice(0, size).arrayBuffer();
+  return new Uint8Array(buffer);
+};
+
+/**
+ * Detect encoding, quote character and delimiter from a byte sample
+ */
+export const sniffDialect = (bytes: Uint8Array): CSVDialect => {
+  const encoding = detectEncoding(bytes);
+  const text = decodeSample(bytes, encoding);
+  const quote = sniffQuote(text);
+  const delimiter = sniffDelimiter(text, quote);
+
+  return { encoding, delimiter, quote };
+};
+
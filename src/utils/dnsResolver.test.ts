@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createFixtureResolver, parseDNSFixture, parseMXRecord } from './dnsResolver';
+
+describe('parseMXRecord', () => {
+  it('splits preference and host and drops the trailing dot', () => {
+    expect(parseMXRecord('10 aspmx.l.google.com.')).toEqual({ preference: 10, host: 'aspmx.l.google.com' });
+    expect(parseMXRecord('  5   mx.acme.com ')).toEqual({ preference: 5, host: 'mx.acme.com' });
+  });
+
+  it('accepts a host without a preference', () => {
+    expect(parseMXRecord('mx.acme.com')).toEqual({ preference: 0, host: 'mx.acme.com' });
+  });
+
+  it('keeps a null MX as an empty host', () => {
+    expect(parseMXRecord('0 .')).toEqual({ preference: 0, host: '' });
+  });
+
+  it('rejects bare numbers and extra fields', () => {
+    expect(parseMXRecord('10')).toBeNull();
+    expect(parseMXRecord('10 mx.acme.com extra')).toBeNull();
+    expect(parseMXRecord('')).toBeNull();
+  });
+});
+
+describe('parseDNSFixture', () => {
+  it('accepts records with and without a preference', () => {
+    const json = JSON.stringify({ 'acme.com': ['10 mx1.acme.com.', 'mx2.acme.com'], 'nomail.com': [] });
+    expect(parseDNSFixture(json)).toEqual({ 'acme.com': ['10 mx1.acme.com.', 'mx2.acme.com'], 'nomail.com': [] });
+  });
+
+  it('rejects fixtures that are not a domain to records map', () => {
+    expect(() => parseDNSFixture('[]')).toThrow('must be an object');
+    expect(() => parseDNSFixture('{"acme.com": "10 mx.acme.com"}')).toThrow('must be a list of strings');
+    expect(() => parseDNSFixture('{"acme.com": ["10"]}')).toThrow('MX record "10" for acme.com');
+  });
+});
+
+describe('createFixtureResolver', () => {
+  const resolver = createFixtureResolver({ 'Acme.com.': ['10 mx.acme.com'], 'nomail.com': [] });
+
+  it('answers MX queries without case or trailing dot', async () => {
+    expect(await resolver.resolve('ACME.COM', 'MX')).toEqual({ nxdomain: false, records: ['10 mx.acme.com'] });
+    expect(await resolver.resolve('nomail.com', 'MX')).toEqual({ nxdomain: false, records: [] });
+  });
+
+  it('treats missing domains as NXDOMAIN and has no TXT records', async () => {
+    expect(await resolver.resolve('missing.com', 'MX')).toEqual({ nxdomain: true, records: [] });
+    expect(await resolver.resolve('acme.com', 'TXT')).toEqual({ nxdomain: false, records: [] });
+    expect(resolver.supportsTXT).toBe(false);
+    expect(resolver.cacheable).toBe(false);
+  });
+});
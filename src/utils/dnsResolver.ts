@@ -0,0 +1,200 @@
+// DNS resolvers used for MX lookups. The pipeline receives a serializable
+// ResolverConfig from the main thread and builds the resolver in the worker.
+
+export type DNSRecordType = 'MX' | 'TXT';
+
+// Record in a DNS-over-HTTPS JSON answer
+export type DNSRecord = { name: string; type: number; TTL: number; data: string };
+
+export type DNSAnswer = {
+  nxdomain: boolean; // The name does not exist
+  records: string[]; // Data of the records of the requested type
+  ttl?: number; // Seconds the answer may be cached, when known
+};
+
+export interface DNSResolver {
+  name: string;
+  cacheable: boolean; // Whether answers should go into the MX cache
+  supportsTXT: boolean; // False when TXT answers would not be real (fixtures only hold MX records)
+  resolve: (name: string, type: DNSRecordType, signal?: AbortSignal) => Promise<DNSAnswer>;
+}
+
+/**
+ * A lookup that failed. Retryable errors (rate limits, server errors,
+ * timeouts, network errors) may succeed when tried again later.
+ */
+export class DNSLookupError extends Error {
+  retryable: boolean;
+  retryAfterMs?: number; // Delay asked for by the server, e.g. from Retry-After
+
+  constructor(message: string, retryable: boolean, retryAfterMs?: number) {
+    super(message);
+    this.name = 'DNSLookupError';
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Domain to MX records, e.g. { "example.com": ["10 aspmx.l.google.com."] }.
+ * Domains that are missing resolve as NXDOMAIN, an empty list means no MX.
+ */
+export type DNSFixture = Record<string, string[]>;
+
+export type ResolverType = 'google' | 'cloudflare' | 'custom' | 'fixture';
+
+export type ResolverConfig =
+  | { type: 'google' }
+  | { type: 'cloudflare' }
+  | { type: 'custom'; url: string }
+  | { type: 'fixture'; fixture: DNSFixture };
+
+export const RESOLVER_OPTIONS: { value: ResolverType; label: string }[] = [
+  { value: 'google', label: 'Google DNS over HTTPS' },
+  { value: 'cloudflare', label: 'Cloudflare DNS over HTTPS' },
+  { value: 'custom', label: 'Custom DNS over HTTPS URL' },
+  { value: 'fixture', label: 'Offline fixture file' },
+];
+
+const GOOGLE_DOH_URL = 'https://dns.google/resolve';
+const CLOUDFLARE_DOH_URL = 'https://cloudflare-dns.com/dns-query';
+
+const RECORD_TYPE_CODES: Record<DNSRecordType, number> = { MX: 15, TXT: 16 };
+
+// Pause after a rate limit that does not say how long to wait
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+/**
+ * How long the server asks us to wait, from a Retry-After header in seconds
+ */
+const getRetryAfterMs = (response: Response): number | undefined => {
+  const seconds = Number(response.headers.get('retry-after'));
+  if (seconds > 0) return seconds * 1000;
+  return response.status === 429 ? DEFAULT_RETRY_AFTER_MS : undefined;
+};
+
+/**
+ * Resolver for DoH endpoints that speak the JSON API shared by Google and
+ * Cloudflare (?name=...&type=...). Throws a DNSLookupError when the lookup fails.
+ */
+export const createDoHResolver = (name: string, endpoint: string): DNSResolver => ({
+  name,
+  cacheable: true,
+  supportsTXT: true,
+  resolve: async (domain, type, signal) => {
+    const url = new URL(endpoint);
+    url.searchParams.set('name', domain);
+    url.searchParams.set('type', type);
+
+    let response: Response;
+    try {
+      response = await fetch(url.toString(), {
+        headers: { accept: 'application/dns-json' },
+        signal
+      });
+    } catch (error) {
+      // Let aborts through untouched so callers can tell them apart
+      if (signal?.aborted) throw error;
+      throw new DNSLookupError(`DNS query failed: ${error instanceof Error ? error.message : String(error)}`, true);
+    }
+
+    if (!response.ok) {
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new DNSLookupError(`DNS query failed with HTTP ${response.status}`, retryable, getRetryAfterMs(response));
+    }
+    const data = await response.json();
+
+    // 0 = NOERROR, 3 = NXDOMAIN; 2 = SERVFAIL is usually temporary, anything else is final
+    if (data.Status !== 0 && data.Status !== 3) {
+      throw new DNSLookupError(`DNS query failed with status ${data.Status}`, data.Status === 2);
+    }
+
+    const answers = ((data.Answer || []) as DNSRecord[]).filter(record => record.type === RECORD_TYPE_CODES[type]);
+    // Negative answers carry their TTL on the SOA record
+    const ttls = (answers.length > 0 ? answers : (data.Authority || []) as DNSRecord[]).map(record => record.TTL);
+
+    return {
+      nxdomain: data.Status === 3,
+      records: answers.map(record => record.data),
+      ttl: ttls.length > 0 ? Math.min(...ttls) : undefined
+    };
+  }
+});
+
+/**
+ * Resolver answering from a local fixture, for tests and air-gapped machines
+ */
+export const createFixtureResolver = (fixture: DNSFixture): DNSResolver => {
+  // Fixture keys are matched without case or a trailing dot
+  const records = new Map<string, string[]>();
+  Object.entries(fixture).forEach(([domain, mxRecords]) => {
+    records.set(domain.toLowerCase().replace(/\.$/, ''), mxRecords);
+  });
+
+  return {
+    name: 'fixture',
+    cacheable: false,
+    supportsTXT: false,
+    resolve: async (domain, type) => {
+      const mxRecords = records.get(domain.toLowerCase().replace(/\.$/, ''));
+      if (!mxRecords) {
+        return { nxdomain: true, records: [] };
+      }
+      return { nxdomain: false, records: type === 'MX' ? mxRecords : [] };
+    }
+  };
+};
+
+/**
+ * Build the resolver described by a config
+ */
+export const createResolver = (config: ResolverConfig): DNSResolver => {
+  switch (config.type) {
+    case 'cloudflare':
+      return createDoHResolver('cloudflare', CLOUDFLARE_DOH_URL);
+    case 'custom':
+      return createDoHResolver('custom', config.url);
+    case 'fixture':
+      return createFixtureResolver(config.fixture);
+    case 'google':
+    default:
+      return createDoHResolver('google', GOOGLE_DOH_URL);
+  }
+};
+
+// Preference and host, as in a DNS answer ("10 mx.example.com."), or just a host
+const MX_RECORD_FORMAT = /^(?:(\d+)\s+)?(\S+)$/;
+
+/**
+ * Split an MX record into preference and host, without the trailing dot. A
+ * record without a preference ("mx.example.com") gets preference 0. Returns
+ * null for anything else, such as a bare number or extra fields.
+ */
+export const parseMXRecord = (record: string): { preference: number; host: string } | null => {
+  const match = record.trim().match(MX_RECORD_FORMAT);
+  if (!match || /^\d+$/.test(match[2])) return null;
+  return { preference: Number(match[1] || 0), host: match[2].replace(/\.$/, '') };
+};
+
+/**
+ * Parse a fixture file, checking that every domain maps to a list of records
+ */
+export const parseDNSFixture = (json: string): DNSFixture => {
+  const parsed = JSON.parse(json);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('The fixture must be an object mapping domains to MX records');
+  }
+
+  const fixture: DNSFixture = {};
+  Object.entries(parsed).forEach(([domain, mxRecords]) => {
+    if (!Array.isArray(mxRecords) || mxRecords.some(record => typeof record !== 'string')) {
+      throw new Error(`MX records for ${domain} must be a list of strings`);
+    }
+    const malformed = (mxRecords as string[]).find(record => !parseMXRecord(record));
+    if (malformed !== undefined) {
+      throw new Error(`MX record "${malformed}" for ${domain} must look like "10 mx.example.com" or "mx.example.com"`);
+    }
+    fixture[domain] = mxRecords as string[];
+  });
+  return fixture;
+};
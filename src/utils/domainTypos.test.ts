@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { editDistance, suggestDomain } from './domainTypos';
+
+describe('editDistance', () => {
+  it('counts a swap of neighbouring characters as one edit', () => {
+    expect(editDistance('gmial.com', 'gmail.com')).toBe(1);
+    expect(editDistance('hotmial.com', 'hotmail.com')).toBe(1);
+  });
+
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('yaho.com', 'yahoo.com')).toBe(1);
+    expect(editDistance('outlok.com', 'outlook.com')).toBe(1);
+    expect(editDistance('gnail.com', 'gmail.com')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+  });
+});
+
+describe('suggestDomain', () => {
+  it('corrects common provider typos', () => {
+    expect(suggestDomain('gmial.com')).toBe('gmail.com');
+    expect(suggestDomain('hotmial.com')).toBe('hotmail.com');
+    expect(suggestDomain('outlok.com')).toBe('outlook.com');
+    expect(suggestDomain('yaho.com')).toBe('yahoo.com');
+  });
+
+  it('corrects top-level domains that do not exist', () => {
+    expect(suggestDomain('acme.con')).toBe('acme.com');
+    expect(suggestDomain('acme.cmo')).toBe('acme.com');
+    expect(suggestDomain('acme.nte')).toBe('acme.net');
+  });
+
+  it('leaves real domains and real top-level domains alone', () => {
+    ['gmail.com', 'hotmart.com', 'online.de', 'acme.vet', 'acme.pet', 'acme.ong', 'acme.bet', 'acme.co']
+      .forEach(domain => expect(suggestDomain(domain), domain).toBeNull());
+  });
+
+  it('never corrects known domains', () => {
+    expect(suggestDomain('gmai.com', new Set(['gmai.com']))).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+// Suggestions for mistyped email domains (gmial.com, yahoo.con...). A domain
+// is compared by edit distance with well-known mail provider domains, and its
+// top-level domain with the most common ones. Only domains that cannot
+// receive mail are checked, and a suggestion is at most one edit away.
+// Suggestions are only written to suggested_email; the user decides whether
+// to accept them.
+
+import { parse } from 'tldts';
+
+// Provider domains people mistype. Short names (aol, msn, live, mail...) are
+// left out: too many real domains are one edit away from them.
+export const TYPO_TARGET_DOMAINS: string[] = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'ymail.com', 'rocketmail.com', 'hotmail.com',
+  'outlook.com', 'icloud.com', 'protonmail.com', 'yandex.com',
+  'comcast.net', 'verizon.net', 'sbcglobal.net', 'bellsouth.net', 'earthlink.net',
+  'yahoo.co.uk', 'hotmail.co.uk', 'btinternet.com', 'orange.fr', 'wanadoo.fr', 'libero.it',
+  'hotmail.fr', 'yahoo.fr', 't-online.de',
+];
+
+// Top-level domains that are mistyped most often
+const COMMON_TLDS = ['com', 'net', 'org'];
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and
+ * swaps of two neighbouring characters ("gmial" -> "gmail") each cost 1
+ */
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+/**
+ * Replace a top-level domain that is one edit away from .com, .net or .org
+ * and is not a real TLD itself (".con", ".cmo", ".nte"). Real TLDs such as
+ * .vet or .ong come from the Public Suffix List bundled with tldts.
+ */
+const fixTopLevelDomain = (domain: string): string => {
+  const dot = domain.lastIndexOf('.');
+  const tld = domain.slice(dot + 1);
+  if (parse(tld).isIcann) return domain;
+
+  const fixed = COMMON_TLDS.find(common => editDistance(tld, common) === 1);
+  return fixed ? `${domain.slice(0, dot)}.${fixed}` : domain;
+};
+
+/**
+ * Suggest a corrected domain, or return null when the domain looks fine.
+ * Domains in `knownDomains` (e.g. the free webmail list) are never corrected.
+ */
+export const suggestDomain = (domain: string, knownDomains: Set<string> = new Set()): string | null => {
+  const normalized = domain.toLowerCase();
+  if (knownDomains.has(normalized) || TYPO_TARGET_DOMAINS.includes(normalized)) return null;
+
+  // A fixed TLD already uses up the one edit allowed
+  const withFixedTld = fixTopLevelDomain(normalized);
+  if (withFixedTld !== normalized) return withFixedTld;
+
+  return TYPO_TARGET_DOMAINS.find(target => editDistance(normalized, target) === 1) || null;
+};
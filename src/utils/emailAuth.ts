@@ -0,0 +1,98 @@
+// Parsing of SPF and DMARC TXT records for the optional email authentication
+// stage. The DNS lookups themselves go through the same resolver and cache
+// path as MX lookups (see csvProcessing.ts).
+
+export type DMARCPolicy = 'none' | 'quarantine' | 'reject';
+
+export type SPFSummary = {
+  present: boolean;
+  includes: string[]; // Domains of the include: mechanisms, in record order
+};
+
+/**
+ * Well-known SPF include domains and the sending service behind them.
+ * Includes that are not listed are reported by their domain.
+ */
+export const SPF_INCLUDE_PROVIDERS: { pattern: string; provider: string }[] = [
+  { pattern: '_spf.google.com', provider: 'google' },
+  { pattern: 'spf.protection.outlook.com', provider: 'microsoft' },
+  { pattern: 'spf.protection.outlook.de', provider: 'microsoft' },
+  { pattern: 'zoho.com', provider: 'zoho' },
+  { pattern: 'zoho.eu', provider: 'zoho' },
+  { pattern: 'mail.zendesk.com', provider: 'zendesk' },
+  { pattern: 'sendgrid.net', provider: 'sendgrid' },
+  { pattern: 'mailgun.org', provider: 'mailgun' },
+  { pattern: 'servers.mcsv.net', provider: 'mailchimp' },
+  { pattern: 'spf.mandrillapp.com', provider: 'mailchimp' },
+  { pattern: 'amazonses.com', provider: 'amazon-ses' },
+  { pattern: '_spf.salesforce.com', provider: 'salesforce' },
+  { pattern: 'hubspotemail.net', provider: 'hubspot' },
+  { pattern: 'spf.messagingengine.com', provider: 'fastmail' },
+  { pattern: 'secureserver.net', provider: 'godaddy' },
+  { pattern: 'spf.protonmail.ch', provider: 'protonmail' },
+  { pattern: 'mktomail.com', provider: 'marketo' },
+  { pattern: 'spf.mailjet.com', provider: 'mailjet' },
+  { pattern: 'spf.sendinblue.com', provider: 'brevo' },
+  { pattern: 'sparkpostmail.com', provider: 'sparkpost' },
+  { pattern: 'mail.freshdesk.com', provider: 'freshdesk' },
+];
+
+/**
+ * Join the character strings of a TXT record. Some resolvers return them
+ * quoted ("v=spf1 ..." "-all"), others as plain text.
+ */
+export const normalizeTXTRecord = (record: string): string => {
+  const trimmed = record.trim();
+  if (!trimmed.startsWith('"')) return trimmed;
+
+  const parts = trimmed.match(/"((?:[^"\\]|\\.)*)"/g) || [];
+  return parts.map(part => part.slice(1, -1).replace(/\\(.)/g, '$1')).join('');
+};
+
+/**
+ * Find the SPF record among a domain's TXT records and list its includes
+ */
+export const parseSPF = (txtRecords: string[]): SPFSummary => {
+  const record = txtRecords
+    .map(normalizeTXTRecord)
+    .find(txt => /^v=spf1(\s|$)/i.test(txt));
+
+  if (!record) {
+    return { present: false, includes: [] };
+  }
+
+  const includes = record
+    .split(/\s+/)
+    .map(term => term.match(/^[+?~-]?include:(.+)$/i)?.[1])
+    .filter((domain): domain is string => !!domain)
+    .map(domain => domain.toLowerCase().replace(/\.$/, ''));
+
+  return { present: true, includes };
+};
+
+/**
+ * Sending services for a list of SPF includes, without duplicates
+ */
+export const getSPFProviders = (includes: string[]): string[] => {
+  const providers = includes.map(include => {
+    const match = SPF_INCLUDE_PROVIDERS.find(
+      ({ pattern }) => include === pattern || include.endsWith(`.${pattern}`)
+    );
+    return match ? match.provider : include;
+  });
+  return Array.from(new Set(providers));
+};
+
+/**
+ * Policy (p= tag) of the DMARC record among the TXT records of _dmarc.domain,
+ * or null when there is no valid DMARC record
+ */
+export const parseDMARCPolicy = (txtRecords: string[]): DMARCPolicy | null => {
+  const record = txtRecords
+    .map(normalizeTXTRecord)
+    .find(txt => /^v=DMARC1\s*(;|$)/i.test(txt));
+  if (!record) return null;
+
+  const policy = record.match(/(?:^|;)\s*p\s*=\s*([a-z]+)/i)?.[1].toLowerCase();
+  return policy === 'none' || policy === 'quarantine' || policy === 'reject' ? policy : null;
+};
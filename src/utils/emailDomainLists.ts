@@ -0,0 +1,140 @@
+// Free webmail and disposable email domains. Bundled lists ship with the
+// app; users can replace them in the settings (kept in localStorage, sent to
+// the pipeline worker with every run).
+
+import { toASCIIDomain } from './idn';
+
+export type EmailType = 'business' | 'free' | 'disposable';
+
+export type EmailDomainLists = {
+  free: string[];
+  disposable: string[];
+};
+
+export const DEFAULT_FREE_MAIL_DOMAINS: string[] = [
+  // Global providers
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'ymail.com', 'rocketmail.com',
+  'hotmail.com', 'outlook.com', 'live.com', 'msn.com', 'passport.com',
+  'aol.com', 'aim.com', 'icloud.com', 'me.com', 'mac.com',
+  'proton.me', 'protonmail.com', 'protonmail.ch', 'pm.me', 'tutanota.com', 'tuta.io',
+  'zohomail.com', 'fastmail.com', 'hushmail.com', 'mail.com', 'email.com', 'usa.com',
+  'gmx.com', 'gmx.net', 'inbox.com', 'yandex.com', 'yandex.ru', 'ya.ru',
+  // Regional Yahoo, Microsoft and GMX domains
+  'yahoo.co.uk', 'yahoo.fr', 'yahoo.de', 'yahoo.it', 'yahoo.es', 'yahoo.ca',
+  'yahoo.com.au', 'yahoo.co.in', 'yahoo.co.jp', 'yahoo.com.br', 'yahoo.com.mx',
+  'hotmail.co.uk', 'hotmail.fr', 'hotmail.de', 'hotmail.it', 'hotmail.es',
+  'outlook.fr', 'outlook.de', 'outlook.es', 'live.co.uk', 'live.fr', 'live.de', 'live.nl',
+  'gmx.de', 'gmx.at', 'gmx.ch', 'web.de',
+  // Europe
+  't-online.de', 'freenet.de', 'orange.fr', 'wanadoo.fr', 'free.fr', 'laposte.net',
+  'sfr.fr', 'libero.it', 'virgilio.it', 'tiscali.it', 'seznam.cz', 'wp.pl', 'o2.pl',
+  'interia.pl', 'onet.pl', 'btinternet.com', 'sky.com', 'virginmedia.com', 'ntlworld.com',
+  'talktalk.net', 'mail.ru', 'bk.ru', 'inbox.ru', 'list.ru', 'rambler.ru', 'ukr.net',
+  // North America and Oceania
+  'comcast.net', 'verizon.net', 'att.net', 'sbcglobal.net', 'bellsouth.net', 'cox.net',
+  'charter.net', 'earthlink.net', 'optonline.net', 'shaw.ca', 'rogers.com', 'sympatico.ca',
+  'bigpond.com', 'optusnet.com.au', 'xtra.co.nz',
+  // Asia and Latin America
+  'qq.com', '163.com', '126.com', 'sina.com', 'sohu.com', 'naver.com', 'daum.net',
+  'hanmail.net', 'rediffmail.com', 'uol.com.br', 'bol.com.br', 'terra.com.br',
+];
+
+export const DEFAULT_DISPOSABLE_DOMAINS: string[] = [
+  'mailinator.com', 'mailinator.net', 'mailinator2.com', 'reallymymail.com',
+  'guerrillamail.com', 'guerrillamail.net', 'guerrillamail.org', 'guerrillamail.biz',
+  'guerrillamail.de', 'guerrillamailblock.com', 'sharklasers.com', 'grr.la', 'pokemail.net',
+  'spam4.me', '10minutemail.com', '10minutemail.net', '10minutemail.co.uk', '20minutemail.com',
+  'temp-mail.org', 'temp-mail.io', 'tempmail.com', 'tempmail.net', 'tempmailo.com',
+  'tempr.email', 'tempinbox.com', 'throwawaymail.com', 'trashmail.com', 'trashmail.net',
+  'trashmail.de', 'trash-mail.com', 'yopmail.com', 'yopmail.net', 'yopmail.fr',
+  'cool.fr.nf', 'jetable.fr.nf', 'nospam.ze.tc', 'nomail.xl.cx', 'mega.zik.dj',
+  'getnada.com', 'nada.email', 'dispostable.com', 'maildrop.cc', 'mailnesia.com',
+  'mailcatch.com', 'mintemail.com', 'mohmal.com', 'mytemp.email', 'fakeinbox.com',
+  'fakemail.net', 'emailondeck.com', 'spamgourmet.com', 'spambox.us', 'spamex.com',
+  'mailnull.com', 'incognitomail.org', 'getairmail.com', 'discard.email', 'discardmail.com',
+  'discardmail.de', 'burnermail.io', 'mailpoof.com', 'moakt.com', 'tmail.ws', 'tmpmail.org',
+  'tmpmail.net', 'emailfake.com', 'fakemailgenerator.com', 'armyspy.com', 'cuvox.de',
+  'dayrep.com', 'einrot.com', 'fleckens.hu', 'gustr.com', 'jourrapide.com', 'rhyta.com',
+  'superrito.com', 'teleworm.us', 'mailforspam.com', 'spamfree24.org', 'wegwerfmail.de',
+  'wegwerfmail.net', 'einmalmail.de', 'byom.de', 'mvrht.net', 'harakirimail.com',
+  'inboxkitten.com', 'mail-temp.com', 'tempail.com', 'emltmp.com', 'linshiyouxiang.net',
+  'dropmail.me', '33mail.com', 'anonaddy.me', 'mailsac.com', 'mail.tm', 'guerrillamail.info',
+  'spamdecoy.net', 'mailexpire.com', 'meltmail.com', 'mailmoat.com', 'boun.cr', 'tempm.com',
+];
+
+export const DEFAULT_EMAIL_DOMAIN_LISTS: EmailDomainLists = {
+  free: DEFAULT_FREE_MAIL_DOMAINS,
+  disposable: DEFAULT_DISPOSABLE_DOMAINS
+};
+
+const STORAGE_KEY = 'emailDomainLists';
+
+/**
+ * Clean a pasted or imported list: one domain per line (commas also work),
+ * "#" comments, "@" prefixes and duplicates are dropped
+ */
+export const parseDomainList = (text: string): string[] => {
+  const domains = text
+    .split(/[\r\n,]+/)
+    .map(line => line.replace(/#.*$/, '').trim().toLowerCase().replace(/^@/, '').replace(/\.$/, ''))
+    .filter(domain => domain !== '');
+  return Array.from(new Set(domains));
+};
+
+/**
+ * Build a lookup for the lists. A domain also matches through its parent
+ * domains, so "eu.mailinator.com" counts as disposable. Domains are compared
+ * in their ASCII form, whichever way they were written.
+ */
+export const createEmailTypeClassifier = (lists: EmailDomainLists) => {
+  const free = new Set(lists.free.map(toASCIIDomain));
+  const disposable = new Set(lists.disposable.map(toASCIIDomain));
+
+  const matches = (set: Set<string>, domain: string) => {
+    const labels = toASCIIDomain(domain).split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      if (set.has(labels.slice(i).join('.'))) return true;
+    }
+    return false;
+  };
+
+  return {
+    getType: (domain: string): EmailType => {
+      if (!domain) return 'business';
+      if (matches(disposable, domain)) return 'disposable';
+      if (matches(free, domain)) return 'free';
+      return 'business';
+    },
+    // Free and disposable domains say nothing about the company, so they
+    // must not be used to group contacts
+    isSharedDomain: (domain: string): boolean => {
+      return !!domain && (matches(disposable, domain) || matches(free, domain));
+    }
+  };
+};
+
+export type EmailTypeClassifier = ReturnType<typeof createEmailTypeClassifier>;
+
+/**
+ * Read the saved lists, or the bundled ones if they were never edited
+ */
+export const loadEmailDomainLists = (): EmailDomainLists => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_EMAIL_DOMAIN_LISTS, ...JSON.parse(stored) } : DEFAULT_EMAIL_DOMAIN_LISTS;
+  } catch (error) {
+    console.error('Failed to read email domain lists:', error);
+    return DEFAULT_EMAIL_DOMAIN_LISTS;
+  }
+};
+
+/**
+ * Save edited lists, or go back to the bundled ones when null
+ */
+export const saveEmailDomainLists = (lists: EmailDomainLists | null): void => {
+  if (lists) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(lists));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
@@ -0,0 +1,122 @@
+// Email normalisation and syntax checks used by the cleaning pipelines.
+// The rules follow what mail servers accept in practice (RFC 5321/5322
+// without quoted local parts, comments or IP literals), so an address that
+// passes here is worth an MX lookup.
+
+import { toASCIIDomain, toUnicodeDomain } from './idn';
+
+export type EmailCheck = {
+  email: string; // Normalised address
+  error: string | null; // Why the address is invalid, null when it is valid
+};
+
+const MAX_ADDRESS_LENGTH = 254;
+const MAX_LOCAL_PART_LENGTH = 64;
+const MAX_DOMAIN_LENGTH = 253;
+const MAX_LABEL_LENGTH = 63;
+
+// Dot-atom characters allowed in an unquoted local part (RFC 5322 atext)
+const LOCAL_PART_CHARS = /^[a-z0-9!#$%&'*+/=?^_`{|}~.-]+$/;
+// Letters and digits in any script, so internationalised domains pass too
+const DOMAIN_LABEL_CHARS = /^[\p{L}\p{N}-]+$/u;
+const IPV4_ADDRESS = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+/**
+ * Turn a scraped value into a bare address: trims, lowercases and removes a
+ * mailto: prefix (with any ?subject=... query), angle brackets and quotes.
+ * Punycode domains are written in Unicode so both spellings match.
+ */
+export const normalizeEmail = (raw: string): string => {
+  let email = (raw || '').trim();
+
+  // "Jane Doe <jane@example.com>" keeps only the address
+  const bracketed = email.match(/<([^<>]*)>/);
+  if (bracketed) {
+    email = bracketed[1];
+  }
+
+  let previous = '';
+  let isMailto = false;
+  while (email !== previous) {
+    previous = email;
+    isMailto = isMailto || /^mailto:/i.test(email.trim());
+    email = email
+      .trim()
+      .replace(/^mailto:/i, '')
+      .replace(/^["'<]+|["'>]+$/g, '');
+  }
+
+  // "?" is allowed in a local part; it only starts a query in mailto: links
+  const address = (isMailto ? email.split('?')[0] : email).trim().toLowerCase();
+  const at = address.lastIndexOf('@');
+  return at === -1 ? address : address.slice(0, at + 1) + toUnicodeDomain(address.slice(at + 1));
+};
+
+/**
+ * Describe what is wrong with the local part, or return null
+ */
+const checkLocalPart = (localPart: string): string | null => {
+  if (localPart === '') return 'missing local part';
+  if (localPart.length > MAX_LOCAL_PART_LENGTH) return 'local part longer than 64 characters';
+  if (/\s/.test(localPart)) return 'whitespace';
+  if (!LOCAL_PART_CHARS.test(localPart)) return 'invalid character in local part';
+  if (localPart.startsWith('.') || localPart.endsWith('.')) return 'local part starts or ends with a dot';
+  if (localPart.includes('..')) return 'consecutive dots';
+  return null;
+};
+
+/**
+ * Describe what is wrong with the domain, or return null. Length limits
+ * apply to the ASCII form of internationalised domains.
+ */
+const checkDomain = (domain: string): string | null => {
+  if (domain === '') return 'missing domain';
+  if (domain.startsWith('[') || IPV4_ADDRESS.test(domain)) return 'IP-literal domain';
+  if (toASCIIDomain(domain).length > MAX_DOMAIN_LENGTH) return 'domain longer than 253 characters';
+  if (/\s/.test(domain)) return 'whitespace';
+  if (domain.startsWith('.') || domain.endsWith('.')) return 'domain starts or ends with a dot';
+  if (domain.includes('..')) return 'consecutive dots';
+
+  const labels = domain.split('.');
+  if (labels.length < 2) return 'single-label domain';
+
+  for (const label of labels) {
+    if (toASCIIDomain(label).length > MAX_LABEL_LENGTH) return 'domain label longer than 63 characters';
+    if (!DOMAIN_LABEL_CHARS.test(label)) return 'invalid character in domain';
+    if (label.startsWith('-') || label.endsWith('-')) return 'domain label starts or ends with a hyphen';
+  }
+
+  const tld = labels[labels.length - 1];
+  if (/^\d+$/.test(tld)) return 'numeric top-level domain';
+  if (tld.length < 2) return 'top-level domain too short';
+  return null;
+};
+
+/**
+ * Describe what is wrong with a normalised address, or return null when it
+ * is valid. Reasons are short phrases such as "consecutive dots".
+ */
+export const getEmailSyntaxError = (email: string): string | null => {
+  if (email === '') return 'empty';
+
+  const atCount = email.split('@').length - 1;
+  if (atCount === 0) return 'missing @';
+  if (atCount > 1) return 'more than one @';
+  if (email.length > MAX_ADDRESS_LENGTH) return 'address longer than 254 characters';
+
+  const [localPart, domain] = email.split('@');
+  return checkLocalPart(localPart) || checkDomain(domain);
+};
+
+/**
+ * Normalise a raw value and check its syntax
+ */
+export const checkEmail = (raw: string): EmailCheck => {
+  const email = normalizeEmail(raw);
+  return { email, error: getEmailSyntaxError(email) };
+};
+
+/**
+ * Deletion reason for an invalid address
+ */
+export const getInvalidEmailReason = (error: string): string => `Invalid email syntax: ${error}`;
@@ -0,0 +1,188 @@
+import type { CSVRow } from './csvProcessing';
+import type { CSVParseError } from './csvParser';
+import { appendRows, createDataset, DatasetHandle, releaseDataset } from './datasetStore';
+import type { CSVDialect } from './dialect';
+import type { SheetSummary } from './xlsxImport';
+
+// Messages exchanged with the ingestion worker
+export type IngestRequest = {
+  type: 'start';
+  file: File;
+  dialect: CSVDialect;
+};
+
+export type IngestResponse =
+  | { type: 'rows'; rows: CSVRow[] }
+  | { type: 'progress'; bytesRead: number; totalBytes: number; rowCount: number }
+  | { type: 'done'; headers: string[]; rowCount: number; errors: CSVParseError[]; errorCount: number }
+  | { type: 'error'; message: string };
+
+export type WorkbookRequest =
+  | { type: 'open'; file: File }
+  | { type: 'convert'; sheetName: string; headerRow: number };
+
+export type WorkbookResponse =
+  | { type: 'opened'; sheets: SheetSummary[] }
+  | { type: 'rows'; rows: CSVRow[] }
+  | { type: 'progress'; rowCount: number }
+  | { type: 'done'; headers: string[]; rowCount: number }
+  | { type: 'error'; message: string };
+
+export type IngestProgress = {
+  bytesRead: number;
+  totalBytes: number;
+  rowCount: number;
+};
+
+export type IngestResult = {
+  handle: DatasetHandle;
+  errors: CSVParseError[];
+  errorCount: number;
+};
+
+/**
+ * Stream a file through the ingestion worker. Rows are collected into the
+ * dataset store as they arrive; the caller only receives a handle.
+ */
+export const ingestFile = (
+  file: File,
+  dialect: CSVDialect,
+  onProgress: (progress: IngestProgress) => void
+): Promise<IngestResult> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/csvIngest.worker.ts', import.meta.url), { type: 'module' });
+    const datasetId = createDataset();
+
+    worker.onmessage = (event: MessageEvent<IngestResponse>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'rows':
+          appendRows(datasetId, message.rows);
+          break;
+        case 'progress':
+          onProgress({
+            bytesRead: message.bytesRead,
+            totalBytes: message.totalBytes,
+            rowCount: message.rowCount
+          });
+          break;
+        case 'done':
+          worker.terminate();
+          resolve({
+            handle: {
+              id: datasetId,
+              fileName: file.name,
+              headers: message.headers,
+              rowCount: message.rowCount
+            },
+            errors: message.errors,
+            errorCount: message.errorCount
+          });
+          break;
+        case 'error':
+          worker.terminate();
+          releaseDataset(datasetId);
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      releaseDataset(datasetId);
+      reject(new Error(event.message || 'Ingestion worker failed'));
+    };
+
+    const request: IngestRequest = { type: 'start', file, dialect };
+    worker.postMessage(request);
+  });
+};
+
+export type WorkbookSession = {
+  fileName: string;
+  sheets: SheetSummary[];
+  convert: (sheetName: string, headerRow: number, onProgress: (rowCount: number) => void) => Promise<IngestResult>;
+  close: () => void;
+};
+
+/**
+ * Open an Excel workbook in a worker. The returned session keeps the workbook
+ * in the worker until a sheet has been converted or the session is closed.
+ */
+export const openWorkbook = (file: File): Promise<WorkbookSession> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/xlsxIngest.worker.ts', import.meta.url), { type: 'module' });
+
+    const close = () => worker.terminate();
+
+    const convert = (
+      sheetName: string,
+      headerRow: number,
+      onProgress: (rowCount: number) => void
+    ): Promise<IngestResult> => {
+      return new Promise((resolveConvert, rejectConvert) => {
+        const datasetId = createDataset();
+
+        worker.onmessage = (event: MessageEvent<WorkbookResponse>) => {
+          const message = event.data;
+
+          switch (message.type) {
+            case 'rows':
+              appendRows(datasetId, message.rows);
+              break;
+            case 'progress':
+              onProgress(message.rowCount);
+              break;
+            case 'done':
+              close();
+              resolveConvert({
+                handle: {
+                  id: datasetId,
+                  fileName: file.name,
+                  headers: message.headers,
+                  rowCount: message.rowCount
+                },
+                errors: [],
+                errorCount: 0
+              });
+              break;
+            case 'error':
+              close();
+              releaseDataset(datasetId);
+              rejectConvert(new Error(message.message));
+              break;
+          }
+        };
+
+        worker.onerror = (event) => {
+          close();
+          releaseDataset(datasetId);
+          rejectConvert(new Error(event.message || 'Workbook worker failed'));
+        };
+
+        const request: WorkbookRequest = { type: 'convert', sheetName, headerRow };
+        worker.postMessage(request);
+      });
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkbookResponse>) => {
+      const message = event.data;
+
+      if (message.type === 'opened') {
+        resolve({ fileName: file.name, sheets: message.sheets, convert, close });
+      } else if (message.type === 'error') {
+        close();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      close();
+      reject(new Error(event.message || 'Workbook worker failed'));
+    };
+
+    const request: WorkbookRequest = { type: 'open', file };
+    worker.postMessage(request);
+  });
+};
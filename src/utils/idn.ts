@@ -0,0 +1,30 @@
+// Internationalised domain names (münchen-bau.de) can be written in Unicode
+// or in their ASCII "punycode" form (xn--mnchen-bau-9db.de). DNS only knows
+// the ASCII form; people read the Unicode one. Both helpers lowercase and
+// leave a domain unchanged when it cannot be converted.
+
+import { toASCII, toUnicode } from 'punycode';
+
+/**
+ * ASCII form of a domain, for DNS lookups and caches
+ */
+export const toASCIIDomain = (domain: string): string => {
+  const normalized = (domain || '').trim().toLowerCase();
+  try {
+    return toASCII(normalized.normalize('NFC'));
+  } catch (error) {
+    return normalized;
+  }
+};
+
+/**
+ * Unicode form of a domain, for output and grouping
+ */
+export const toUnicodeDomain = (domain: string): string => {
+  const normalized = (domain || '').trim().toLowerCase();
+  try {
+    return toUnicode(normalized).normalize('NFC');
+  } catch (error) {
+    return normalized;
+  }
+};
@@ -0,0 +1,86 @@
+// Thin promise wrapper around the app's IndexedDB database. Works on the main
+// thread and inside workers.
+
+const DB_NAME = 'hyperclean-csv';
+const DB_VERSION = 3;
+
+export const TASKS_STORE = 'tasks';
+export const RESULT_CHUNKS_STORE = 'resultChunks';
+export const MX_CACHE_STORE = 'mxCache';
+export const TXT_CACHE_STORE = 'txtCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Create any object stores missing from an older database version
+ */
+const upgradeDatabase = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(TASKS_STORE)) {
+    db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(RESULT_CHUNKS_STORE)) {
+    db.createObjectStore(RESULT_CHUNKS_STORE, { keyPath: ['taskId', 'index'] });
+  }
+  if (!db.objectStoreNames.contains(MX_CACHE_STORE)) {
+    db.createObjectStore(MX_CACHE_STORE, { keyPath: 'domain' });
+  }
+  if (!db.objectStoreNames.contains(TXT_CACHE_STORE)) {
+    db.createObjectStore(TXT_CACHE_STORE, { keyPath: 'name' });
+  }
+};
+
+/**
+ * Open (and upgrade if needed) the database. The connection is shared.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgradeDatabase(request.result);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another tab take over
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The database is open in an older version in another tab'));
+    });
+
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+};
+
+/**
+ * Resolve with the result of a single IndexedDB request
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolve once a transaction has committed
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+};
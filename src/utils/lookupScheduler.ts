@@ -0,0 +1,162 @@
+import { DNSLookupError, DNSResolver } from './dnsResolver';
+
+// Runs DNS lookups with limited concurrency, a per-request timeout and
+// retries with exponential backoff, so rate limiting or a flaky endpoint
+// slows a run down instead of turning its results into failures.
+
+export type LookupStats = {
+  lookups: number; // Finished lookups, successful or not
+  retries: number; // Attempts repeated after a retryable error
+  failures: number; // Lookups that failed after their last attempt
+};
+
+export type SchedulerOptions = {
+  concurrency: number;
+  maxRetries: number;
+  timeoutMs: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal; // Aborting rejects queued lookups and cancels running ones
+  onStats?: (stats: LookupStats) => void;
+};
+
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential, capped, with
+ * jitter so that many failed lookups do not all come back at the same time
+ */
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+/**
+ * Wait for a while, stopping early with an AbortError when the signal fires
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Lookup cancelled', 'AbortError'));
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Lookup cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+};
+
+/**
+ * Wrap a resolver so that every lookup goes through the scheduler
+ */
+export const createScheduledResolver = (resolver: DNSResolver, options: SchedulerOptions): DNSResolver => {
+  const {
+    concurrency,
+    maxRetries,
+    timeoutMs,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    signal,
+    onStats
+  } = options;
+
+  const stats: LookupStats = { lookups: 0, retries: 0, failures: 0 };
+  const waiting: (() => void)[] = [];
+  let running = 0;
+  let pausedUntil = 0;
+
+  const reportStats = () => onStats?.({ ...stats });
+
+  const acquireSlot = (): Promise<void> => {
+    if (running < Math.max(1, concurrency)) {
+      running++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => waiting.push(resolve));
+  };
+
+  const releaseSlot = () => {
+    // Hand the slot straight to the next waiting lookup
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      running--;
+    }
+  };
+
+  const attempt = async (name: string, type: Parameters<DNSResolver['resolve']>[1]) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const handleAbort = () => controller.abort();
+    signal?.addEventListener('abort', handleAbort);
+
+    try {
+      return await resolver.resolve(name, type, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        throw new DNSLookupError(`DNS query timed out after ${timeoutMs / 1000}s`, true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+    }
+  };
+
+  return {
+    name: resolver.name,
+    cacheable: resolver.cacheable,
+    supportsTXT: resolver.supportsTXT,
+    resolve: async (name, type) => {
+      for (let retry = 0; ; retry++) {
+        let delay = 0;
+
+        await acquireSlot();
+        try {
+          signal?.throwIfAborted();
+          if (pausedUntil > Date.now()) {
+            await sleep(pausedUntil - Date.now(), signal);
+          }
+
+          const answer = await attempt(name, type);
+          stats.lookups++;
+          reportStats();
+          return answer;
+        } catch (error) {
+          if (signal?.aborted) throw error;
+
+          const retryable = error instanceof DNSLookupError && error.retryable;
+          if (!retryable || retry >= maxRetries) {
+            stats.lookups++;
+            stats.failures++;
+            reportStats();
+            throw error;
+          }
+
+          delay = getBackoffDelay(retry, baseDelayMs, maxDelayMs);
+          // Rate limits apply to the whole endpoint, so every lookup waits
+          if (error.retryAfterMs) {
+            delay = Math.max(delay, error.retryAfterMs);
+            pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+          }
+          stats.retries++;
+          reportStats();
+        } finally {
+          releaseSlot();
+        }
+
+        // The slot is free while waiting, so other lookups keep going
+        await sleep(delay, signal);
+      }
+    }
+  };
+};
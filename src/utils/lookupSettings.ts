@@ -0,0 +1,99 @@
+import { DNSFixture, ResolverConfig, ResolverType } from './dnsResolver';
+
+// User settings for DNS lookups. They are kept in localStorage on the main
+// thread and handed to the pipeline worker with every run.
+
+export type LookupSettings = {
+  cacheTtlHours: number; // How long a successful MX lookup is reused
+  negativeCacheTtlMinutes: number; // How long a failed lookup is remembered before retrying
+  honourDnsTtl: boolean; // Never keep records longer than the TTL in the DNS answer
+  flagDeadDomains: boolean; // Mark rows on NXDOMAIN / no-MX domains for deletion
+  concurrency: number; // Lookups in flight at the same time
+  requestTimeoutSeconds: number;
+  maxRetries: number; // Extra attempts after a rate limit, server error or timeout
+  resolver: ResolverType;
+  customResolverUrl: string; // DoH JSON endpoint used by the 'custom' resolver
+};
+
+export const DEFAULT_LOOKUP_SETTINGS: LookupSettings = {
+  cacheTtlHours: 24 * 7,
+  negativeCacheTtlMinutes: 15,
+  honourDnsTtl: true,
+  flagDeadDomains: true,
+  concurrency: 10,
+  requestTimeoutSeconds: 10,
+  maxRetries: 4,
+  resolver: 'google',
+  customResolverUrl: ''
+};
+
+const STORAGE_KEY = 'lookupSettings';
+const FIXTURE_STORAGE_KEY = 'dnsFixture';
+
+/**
+ * Read the saved settings, falling back to the defaults for anything missing
+ */
+export const loadLookupSettings = (): LookupSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_LOOKUP_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_LOOKUP_SETTINGS };
+  } catch (error) {
+    console.error('Failed to read lookup settings:', error);
+    return { ...DEFAULT_LOOKUP_SETTINGS };
+  }
+};
+
+/**
+ * Save the settings for future runs
+ */
+export const saveLookupSettings = (settings: LookupSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Read the offline DNS fixture, if one was loaded
+ */
+export const loadDNSFixture = (): DNSFixture | null => {
+  try {
+    const stored = localStorage.getItem(FIXTURE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to read DNS fixture:', error);
+    return null;
+  }
+};
+
+/**
+ * Save the offline DNS fixture, or remove it when null
+ */
+export const saveDNSFixture = (fixture: DNSFixture | null): void => {
+  if (fixture) {
+    localStorage.setItem(FIXTURE_STORAGE_KEY, JSON.stringify(fixture));
+  } else {
+    localStorage.removeItem(FIXTURE_STORAGE_KEY);
+  }
+};
+
+/**
+ * Describe the selected resolver so the pipeline worker can build it
+ */
+export const getResolverConfig = (settings: LookupSettings): ResolverConfig => {
+  switch (settings.resolver) {
+    case 'cloudflare':
+      return { type: 'cloudflare' };
+    case 'custom':
+      if (!settings.customResolverUrl) {
+        throw new Error('No custom DNS over HTTPS URL is set');
+      }
+      return { type: 'custom', url: settings.customResolverUrl };
+    case 'fixture': {
+      const fixture = loadDNSFixture();
+      if (!fixture) {
+        throw new Error('No offline DNS fixture has been loaded');
+      }
+      return { type: 'fixture', fixture };
+    }
+    default:
+      return { type: 'google' };
+  }
+};
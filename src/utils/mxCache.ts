@@ -0,0 +1,188 @@
+import type { MXProvider } from './csvProcessing';
+import type { LookupSettings } from './lookupSettings';
+import { MX_CACHE_STORE, openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+// MX lookup results kept in IndexedDB so that re-cleaning a list does not
+// query every domain again. Used by the pipeline worker for lookups and by
+// the cache management dialog on the main thread.
+
+export type MXCacheEntry = {
+  domain: string;
+  status: 'resolved' | 'failed'; // Failed lookups are kept for a short time only
+  records: string[]; // Raw MX answers, e.g. "10 aspmx.l.google.com."
+  provider: MXProvider; // Classification when the lookup was made
+  gateway?: string; // Security gateway in front of the provider, if any
+  fetchedAt: number; // Epoch milliseconds
+  expiresAt: number; // Epoch milliseconds
+  error?: string;
+};
+
+type MXCacheExport = {
+  version: 1;
+  exportedAt: string;
+  entries: MXCacheEntry[];
+};
+
+/**
+ * Work out when an entry stops being used. Successful lookups use the
+ * configured TTL, capped by the DNS TTL when that setting is on; failures use
+ * the short negative TTL.
+ */
+export const getExpiryTime = (
+  status: MXCacheEntry['status'],
+  fetchedAt: number,
+  settings: LookupSettings,
+  dnsTtlSeconds?: number
+): number => {
+  if (status === 'failed') {
+    return fetchedAt + settings.negativeCacheTtlMinutes * 60 * 1000;
+  }
+
+  let ttl = settings.cacheTtlHours * 60 * 60 * 1000;
+  if (settings.honourDnsTtl && dnsTtlSeconds !== undefined) {
+    ttl = Math.min(ttl, dnsTtlSeconds * 1000);
+  }
+  return fetchedAt + ttl;
+};
+
+/**
+ * Read the entries for the given domains that have not expired yet
+ */
+export const readFreshMXEntries = async (
+  domains: string[],
+  now = Date.now()
+): Promise<Map<string, MXCacheEntry>> => {
+  const db = await openDatabase();
+  const store = db.transaction(MX_CACHE_STORE, 'readonly').objectStore(MX_CACHE_STORE);
+
+  const entries = await Promise.all(
+    domains.map(domain => requestToPromise<MXCacheEntry | undefined>(store.get(domain)))
+  );
+
+  const fresh = new Map<string, MXCacheEntry>();
+  entries.forEach(entry => {
+    if (entry && entry.expiresAt > now) {
+      fresh.set(entry.domain, entry);
+    }
+  });
+  return fresh;
+};
+
+/**
+ * Store lookup results, replacing older entries for the same domains
+ */
+export const writeMXEntries = async (entries: MXCacheEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(MX_CACHE_STORE, 'readwrite');
+  const store = transaction.objectStore(MX_CACHE_STORE);
+  entries.forEach(entry => store.put(entry));
+
+  await transactionDone(transaction);
+};
+
+/**
+ * Every cached entry, sorted by domain
+ */
+export const listMXEntries = async (): Promise<MXCacheEntry[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(MX_CACHE_STORE, 'readonly').objectStore(MX_CACHE_STORE);
+  // The store is keyed by domain, so entries already come back sorted
+  return requestToPromise<MXCacheEntry[]>(store.getAll());
+};
+
+/**
+ * Remove the entry for one domain
+ */
+export const deleteMXEntry = async (domain: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MX_CACHE_STORE, 'readwrite');
+  transaction.objectStore(MX_CACHE_STORE).delete(domain);
+
+  await transactionDone(transaction);
+};
+
+/**
+ * Remove every entry
+ */
+export const clearMXCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MX_CACHE_STORE, 'readwrite');
+  transaction.objectStore(MX_CACHE_STORE).clear();
+
+  await transactionDone(transaction);
+};
+
+/**
+ * Remove expired entries and return how many were removed
+ */
+export const purgeExpiredMXEntries = async (now = Date.now()): Promise<number> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MX_CACHE_STORE, 'readwrite');
+  const request = transaction.objectStore(MX_CACHE_STORE).openCursor();
+  let removed = 0;
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    if ((cursor.value as MXCacheEntry).expiresAt <= now) {
+      cursor.delete();
+      removed++;
+    }
+    cursor.continue();
+  };
+
+  await transactionDone(transaction);
+  return removed;
+};
+
+/**
+ * Serialize the whole cache as JSON
+ */
+export const exportMXCache = async (): Promise<string> => {
+  const data: MXCacheExport = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    entries: await listMXEntries()
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const isMXCacheEntry = (value: unknown): value is MXCacheEntry => {
+  const entry = value as MXCacheEntry;
+  return (
+    !!entry &&
+    typeof entry.domain === 'string' &&
+    entry.domain !== '' &&
+    (entry.status === 'resolved' || entry.status === 'failed') &&
+    Array.isArray(entry.records) &&
+    typeof entry.provider === 'string' &&
+    typeof entry.fetchedAt === 'number' &&
+    typeof entry.expiresAt === 'number'
+  );
+};
+
+/**
+ * Load entries from an exported JSON file and return how many were imported.
+ * Existing entries are only replaced by newer lookups.
+ */
+export const importMXCache = async (json: string): Promise<number> => {
+  const parsed = JSON.parse(json);
+  const candidates: unknown[] = Array.isArray(parsed) ? parsed : parsed?.entries;
+  if (!Array.isArray(candidates)) {
+    throw new Error('The file does not contain MX cache entries');
+  }
+
+  const entries = candidates.filter(isMXCacheEntry);
+  // A time of 0 returns expired entries as well
+  const existing = await readFreshMXEntries(entries.map(entry => entry.domain), 0);
+  const newer = entries.filter(entry => {
+    const current = existing.get(entry.domain);
+    return !current || current.fetchedAt < entry.fetchedAt;
+  });
+
+  await writeMXEntries(newer);
+  return newer.length;
+};
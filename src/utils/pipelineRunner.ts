@@ -0,0 +1,134 @@
+import type { CSVData, CSVFileType, StageReport, TaskOptions } from './csvProcessing';
+import type { ResolverConfig } from './dnsResolver';
+import type { EmailDomainLists } from './emailDomainLists';
+import type { LookupStats } from './lookupScheduler';
+import type { LookupSettings } from './lookupSettings';
+import type { ProviderRule } from './providerCatalogue';
+import type { RoleAccountGroup } from './roleAccounts';
+
+// Messages exchanged with the pipeline worker
+export type PipelineRequest =
+  | {
+      type: 'run';
+      fileType: CSVFileType;
+      data: CSVData;
+      mappedColumns: Record<string, string>;
+      lookupSettings: LookupSettings;
+      resolver: ResolverConfig;
+      providerCatalogue: ProviderRule[];
+      taskOptions: TaskOptions;
+      emailDomainLists: EmailDomainLists;
+      roleAccountGroups: RoleAccountGroup[];
+    }
+  | { type: 'cancel' };
+
+export type PipelineResponse =
+  | { type: 'progress'; processed: number; total: number; stage: string; lookupStats?: LookupStats }
+  | { type: 'done'; result: CSVData; stageReports: StageReport[] }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
+
+export type PipelineOutput = {
+  result: CSVData;
+  stageReports: StageReport[];
+};
+
+export type PipelineProgress = {
+  processed: number;
+  total: number;
+  stage: string;
+  lookupStats?: LookupStats; // Set once the run has started DNS lookups
+};
+
+/**
+ * Run a cleaning pipeline in a dedicated worker. Aborting the signal asks the
+ * worker to stop at its next checkpoint; the promise then rejects with an
+ * AbortError.
+ */
+export const runPipelineInWorker = (
+  fileType: CSVFileType,
+  data: CSVData,
+  mappedColumns: Record<string, string>,
+  lookupSettings: LookupSettings,
+  resolver: ResolverConfig,
+  providerCatalogue: ProviderRule[],
+  taskOptions: TaskOptions,
+  emailDomainLists: EmailDomainLists,
+  roleAccountGroups: RoleAccountGroup[],
+  onProgress: (progress: PipelineProgress) => void,
+  signal?: AbortSignal
+): Promise<PipelineOutput> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Processing cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/csvPipeline.worker.ts', import.meta.url), { type: 'module' });
+
+    const handleAbort = () => {
+      const request: PipelineRequest = { type: 'cancel' };
+      worker.postMessage(request);
+    };
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<PipelineResponse>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'progress':
+          onProgress({
+            processed: message.processed,
+            total: message.total,
+            stage: message.stage,
+            lookupStats: message.lookupStats
+          });
+          break;
+        case 'done':
+          cleanup();
+          resolve({ result: message.result, stageReports: message.stageReports });
+          break;
+        case 'cancelled':
+          cleanup();
+          reject(new DOMException('Processing cancelled', 'AbortError'));
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Pipeline worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    const request: PipelineRequest = {
+      type: 'run',
+      fileType,
+      data,
+      mappedColumns,
+      lookupSettings,
+      resolver,
+      providerCatalogue,
+      taskOptions,
+      emailDomainLists,
+      roleAccountGroups
+    };
+    worker.postMessage(request);
+  });
+};
+
+/**
+ * Check whether an error came from a cancelled task
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
@@ -0,0 +1,121 @@
+// Catalogue mapping MX host names to mail providers. Mailbox providers host
+// the mailboxes; gateways (spam/security filters) sit in front of another
+// provider and hide it. The catalogue is user-editable and kept in
+// localStorage; the pipeline worker receives it with every run.
+
+export type ProviderCategory = 'mailbox' | 'gateway';
+
+export type ProviderRule = {
+  pattern: string; // Host suffix, e.g. "pphosted.com" matches "mx0a-001.pphosted.com"
+  provider: string; // Value written to mx_provider / mx_gateway
+  category: ProviderCategory;
+};
+
+export type MXClassification = {
+  provider: string; // Mailbox provider, 'other-hosted' when unknown
+  gateway: string; // Security gateway in front of it, '' when none
+};
+
+export const DEFAULT_PROVIDER_CATALOGUE: ProviderRule[] = [
+  // Mailbox providers
+  { pattern: 'google.com', provider: 'google', category: 'mailbox' },
+  { pattern: 'googlemail.com', provider: 'google', category: 'mailbox' },
+  { pattern: 'outlook.com', provider: 'microsoft', category: 'mailbox' },
+  { pattern: 'hotmail.com', provider: 'microsoft', category: 'mailbox' },
+  { pattern: 'outlook.cn', provider: 'microsoft', category: 'mailbox' },
+  { pattern: 'zoho.com', provider: 'zoho', category: 'mailbox' },
+  { pattern: 'zoho.eu', provider: 'zoho', category: 'mailbox' },
+  { pattern: 'zoho.in', provider: 'zoho', category: 'mailbox' },
+  { pattern: 'zohomail.com', provider: 'zoho', category: 'mailbox' },
+  { pattern: 'yahoodns.net', provider: 'yahoo', category: 'mailbox' },
+  { pattern: 'yahoo.com', provider: 'yahoo', category: 'mailbox' },
+  { pattern: 'yandex.net', provider: 'yandex', category: 'mailbox' },
+  { pattern: 'yandex.ru', provider: 'yandex', category: 'mailbox' },
+  { pattern: 'protonmail.ch', provider: 'protonmail', category: 'mailbox' },
+  { pattern: 'proton.me', provider: 'protonmail', category: 'mailbox' },
+  { pattern: 'messagingengine.com', provider: 'fastmail', category: 'mailbox' },
+  { pattern: 'fastmail.com', provider: 'fastmail', category: 'mailbox' },
+  { pattern: 'secureserver.net', provider: 'godaddy', category: 'mailbox' },
+  // Security gateways
+  { pattern: 'pphosted.com', provider: 'proofpoint', category: 'gateway' },
+  { pattern: 'ppe-hosted.com', provider: 'proofpoint', category: 'gateway' },
+  { pattern: 'mimecast.com', provider: 'mimecast', category: 'gateway' },
+  { pattern: 'mimecast.co.za', provider: 'mimecast', category: 'gateway' },
+  { pattern: 'barracudanetworks.com', provider: 'barracuda', category: 'gateway' },
+  { pattern: 'iphmx.com', provider: 'cisco-ironport', category: 'gateway' },
+];
+
+const STORAGE_KEY = 'providerCatalogue';
+
+/**
+ * Normalize a host or pattern for comparison
+ */
+const normalizeHost = (host: string) => host.trim().toLowerCase().replace(/^\.+|\.+$/g, '');
+
+/**
+ * Check whether a host is the pattern itself or one of its subdomains
+ */
+export const matchesPattern = (host: string, pattern: string): boolean => {
+  const normalizedHost = normalizeHost(host);
+  const normalizedPattern = normalizeHost(pattern);
+  if (!normalizedPattern) return false;
+
+  return normalizedHost === normalizedPattern || normalizedHost.endsWith(`.${normalizedPattern}`);
+};
+
+/**
+ * Find the rule matching a host. The longest pattern wins, so a specific rule
+ * can override a broader one.
+ */
+export const findProviderRule = (host: string, catalogue: ProviderRule[]): ProviderRule | undefined => {
+  return catalogue
+    .filter(rule => rule.provider && matchesPattern(host, rule.pattern))
+    .sort((a, b) => normalizeHost(b.pattern).length - normalizeHost(a.pattern).length)[0];
+};
+
+/**
+ * Classify MX hosts (ordered by preference). The first mailbox and gateway
+ * matches are used; a domain behind a gateway keeps 'other-hosted' as its
+ * provider unless one of its hosts reveals the mailbox provider.
+ */
+export const classifyMXHosts = (hosts: string[], catalogue: ProviderRule[]): MXClassification => {
+  let provider = '';
+  let gateway = '';
+
+  hosts.forEach(host => {
+    const rule = findProviderRule(host, catalogue);
+    if (!rule) return;
+
+    if (rule.category === 'gateway') {
+      gateway = gateway || rule.provider;
+    } else {
+      provider = provider || rule.provider;
+    }
+  });
+
+  return { provider: provider || 'other-hosted', gateway };
+};
+
+/**
+ * Read the saved catalogue, or the default one if it was never edited
+ */
+export const loadProviderCatalogue = (): ProviderRule[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_PROVIDER_CATALOGUE;
+  } catch (error) {
+    console.error('Failed to read provider catalogue:', error);
+    return DEFAULT_PROVIDER_CATALOGUE;
+  }
+};
+
+/**
+ * Save an edited catalogue, or go back to the default one when null
+ */
+export const saveProviderCatalogue = (catalogue: ProviderRule[] | null): void => {
+  if (catalogue) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(catalogue));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
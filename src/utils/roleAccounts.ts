@@ -0,0 +1,184 @@
+// Role accounts are addresses of a function rather than a person (info@,
+// billing@, no-reply@...). Patterns are grouped by language so that lists
+// from other markets can be switched on; users can edit every group. Saved
+// in localStorage and sent to the pipeline worker with every run.
+
+export type RoleAccountGroup = {
+  id: string; // Language code, or a custom id
+  label: string;
+  enabled: boolean;
+  patterns: string[]; // Local parts; "*" matches anything, e.g. "no-reply*" or "*-support"
+};
+
+export const DEFAULT_ROLE_ACCOUNT_GROUPS: RoleAccountGroup[] = [
+  {
+    id: 'en',
+    label: 'English',
+    enabled: true,
+    patterns: [
+      'info', 'contact', 'contactus', 'contact-us', 'hello', 'hi', 'hey', 'enquiries', 'enquiry',
+      'inquiries', 'inquiry', 'general', 'mail', 'email', 'office', 'team', 'staff', 'admin',
+      'administrator', 'administration', 'root', 'postmaster', 'hostmaster', 'webmaster', 'abuse',
+      'security', 'privacy', 'legal', 'compliance', 'gdpr', 'dpo', 'support', 'help', 'helpdesk',
+      'service', 'services', 'customerservice', 'customer-service', 'customercare', 'customer.service',
+      'care', 'feedback', 'sales', 'marketing', 'media', 'press', 'pr', 'news', 'newsletter',
+      'events', 'partners', 'partnerships', 'billing', 'accounts', 'accounting', 'accountspayable',
+      'accounts-payable', 'ap', 'ar', 'invoice', 'invoices', 'invoicing', 'payments', 'finance',
+      'orders', 'order', 'bookings', 'booking', 'reservations', 'reception', 'frontdesk', 'hr',
+      'humanresources', 'recruiting', 'recruitment', 'careers', 'career', 'jobs', 'job', 'talent',
+      'hiring', 'apply', 'applications', 'it', 'tech', 'dev', 'devops', 'engineering', 'ops',
+      'operations', 'purchasing', 'procurement', 'shop', 'store', 'studio', 'hq', 'management',
+      'manager', 'director', 'board', 'investors', 'ir', 'donations', 'volunteer', 'membership',
+      'members', 'subscribe', 'unsubscribe', 'list', 'notifications', 'alerts', 'bounce', 'mailer-daemon',
+      'noreply', 'no-reply*', 'no_reply*', 'noreply*', 'donotreply*', 'do-not-reply*', 'do_not_reply*',
+      '*-support', '*_support', 'support-*', 'sales-*', '*-sales', 'info-*', '*-info', 'team-*',
+      '*-team', 'hr-*', 'billing-*', 'accounts-*'
+    ]
+  },
+  {
+    id: 'de',
+    label: 'German',
+    enabled: true,
+    patterns: [
+      'kontakt', 'anfrage', 'anfragen', 'buero', 'verwaltung', 'vertrieb', 'verkauf',
+      'buchhaltung', 'rechnung', 'rechnungen', 'personal', 'bewerbung', 'bewerbungen', 'karriere',
+      'jobs', 'empfang', 'zentrale', 'service', 'kundenservice', 'datenschutz', 'presse', 'einkauf',
+      'bestellung', 'bestellungen', 'post', 'mail', 'team', 'praxis', 'kanzlei'
+    ]
+  },
+  {
+    id: 'fr',
+    label: 'French',
+    enabled: true,
+    patterns: [
+      'contact', 'accueil', 'bonjour', 'secretariat', 'direction', 'commercial',
+      'ventes', 'comptabilite', 'facturation', 'factures', 'rh', 'recrutement',
+      'emploi', 'candidature', 'candidatures', 'service-client', 'serviceclient', 'sav', 'presse',
+      'communication', 'achats', 'commandes', 'reservation', 'cabinet', 'agence'
+    ]
+  },
+  {
+    id: 'es',
+    label: 'Spanish',
+    enabled: true,
+    patterns: [
+      'contacto', 'informacion', 'hola', 'oficina', 'administracion',
+      'ventas', 'comercial', 'contabilidad', 'facturacion', 'facturas', 'rrhh',
+      'recursos-humanos', 'empleo', 'trabajo', 'curriculum', 'cv', 'atencion', 'atencionalcliente',
+      'atencion-al-cliente', 'soporte', 'ayuda', 'prensa', 'compras', 'pedidos', 'reservas', 'recepcion',
+      'gerencia', 'direccion'
+    ]
+  },
+  {
+    id: 'it',
+    label: 'Italian',
+    enabled: false,
+    patterns: [
+      'contatti', 'informazioni', 'amministrazione', 'segreteria', 'ufficio', 'vendite', 'commerciale',
+      'contabilita', 'fatturazione', 'fatture', 'risorse-umane', 'lavoro', 'lavora-con-noi',
+      'assistenza', 'supporto', 'stampa', 'acquisti', 'ordini', 'prenotazioni', 'direzione'
+    ]
+  },
+  {
+    id: 'nl',
+    label: 'Dutch',
+    enabled: false,
+    patterns: [
+      'contact', 'algemeen', 'kantoor', 'administratie', 'verkoop', 'boekhouding', 'facturen',
+      'factuur', 'facturatie', 'personeelszaken', 'vacatures', 'sollicitatie', 'sollicitaties',
+      'klantenservice', 'ondersteuning', 'pers', 'inkoop', 'bestellingen', 'receptie', 'directie'
+    ]
+  },
+  {
+    id: 'pt',
+    label: 'Portuguese',
+    enabled: false,
+    patterns: [
+      'contato', 'contacto', 'geral', 'informacoes', 'escritorio',
+      'administracao', 'vendas', 'comercial', 'financeiro', 'contabilidade',
+      'faturamento', 'faturacao', 'rh', 'recrutamento', 'vagas', 'curriculos', 'suporte',
+      'atendimento', 'sac', 'imprensa', 'compras', 'pedidos', 'reservas', 'recepcao', 'diretoria'
+    ]
+  },
+];
+
+const STORAGE_KEY = 'roleAccountGroups';
+
+/**
+ * Clean pasted patterns: one per line (commas also work), trailing "@" and
+ * duplicates are dropped
+ */
+export const parsePatternList = (text: string): string[] => {
+  const patterns = text
+    .split(/[\r\n,]+/)
+    .map(line => line.trim().toLowerCase().replace(/@.*$/, ''))
+    .filter(pattern => pattern !== '');
+  return Array.from(new Set(patterns));
+};
+
+/**
+ * Turn a pattern into an anchored regular expression
+ */
+const patternToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern
+    .trim()
+    .toLowerCase()
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`);
+};
+
+/**
+ * Build a matcher for the enabled groups. The local part is compared without
+ * a "+tag", so "sales+leads@" is a role account too.
+ */
+export const createRoleAccountMatcher = (groups: RoleAccountGroup[]) => {
+  const exact = new Set<string>();
+  const wildcards: RegExp[] = [];
+
+  groups
+    .filter(group => group.enabled)
+    .forEach(group => group.patterns.forEach(pattern => {
+      const normalized = pattern.trim().toLowerCase();
+      if (!normalized) return;
+
+      if (normalized.includes('*')) {
+        wildcards.push(patternToRegExp(normalized));
+      } else {
+        exact.add(normalized);
+      }
+    }));
+
+  return (email: string): boolean => {
+    const localPart = (email || '').split('@')[0].toLowerCase().split('+')[0];
+    if (!localPart) return false;
+    return exact.has(localPart) || wildcards.some(regex => regex.test(localPart));
+  };
+};
+
+export type RoleAccountMatcher = ReturnType<typeof createRoleAccountMatcher>;
+
+/**
+ * Read the saved groups, or the default ones if they were never edited
+ */
+export const loadRoleAccountGroups = (): RoleAccountGroup[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_ROLE_ACCOUNT_GROUPS;
+  } catch (error) {
+    console.error('Failed to read role account groups:', error);
+    return DEFAULT_ROLE_ACCOUNT_GROUPS;
+  }
+};
+
+/**
+ * Save edited groups, or go back to the default ones when null
+ */
+export const saveRoleAccountGroups = (groups: RoleAccountGroup[] | null): void => {
+  if (groups) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(groups));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
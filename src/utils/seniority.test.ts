@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { getTitleDepartment, getTitleSeniority, MAX_SENIORITY } from './seniority';
+
+describe('getTitleSeniority', () => {
+  it('scores owners and chief executives highest', () => {
+    ['Owner', 'Owner/Founder', 'Co-owner', 'Business Owner', 'CEO', 'President', 'Geschäftsführer', 'PDG']
+      .forEach(title => expect(getTitleSeniority(title), title).toBe(MAX_SENIORITY));
+  });
+
+  it('does not treat a product owner as an owner', () => {
+    expect(getTitleSeniority('Product Owner')).toBe(1);
+  });
+
+  it('ranks vice presidents below presidents', () => {
+    expect(getTitleSeniority('Vice President Sales')).toBe(4);
+    expect(getTitleSeniority('Vice-Président')).toBe(4);
+    expect(getTitleSeniority('VP Marketing')).toBe(4);
+  });
+
+  it('matches keywords with or without accents', () => {
+    expect(getTitleSeniority('Président')).toBe(MAX_SENIORITY);
+    expect(getTitleSeniority('Présidente directrice générale')).toBe(MAX_SENIORITY);
+    expect(getTitleSeniority('Gerant')).toBe(MAX_SENIORITY);
+    expect(getTitleSeniority('Geschaftsfuhrer')).toBe(MAX_SENIORITY);
+  });
+
+  it('scores the levels in between', () => {
+    expect(getTitleSeniority('Chief Financial Officer')).toBe(5);
+    expect(getTitleSeniority('Head of Growth')).toBe(4);
+    expect(getTitleSeniority('Marketing Director')).toBe(3);
+    expect(getTitleSeniority('Sales Manager')).toBe(2);
+    expect(getTitleSeniority('Software Engineer')).toBe(1);
+  });
+
+  it('scores support roles low even when they mention a senior title', () => {
+    expect(getTitleSeniority('Executive Assistant to the CEO')).toBe(1);
+    expect(getTitleSeniority('Office Manager')).toBe(1);
+  });
+
+  it('scores an empty title 0', () => {
+    expect(getTitleSeniority('')).toBe(0);
+    expect(getTitleSeniority('  ')).toBe(0);
+  });
+});
+
+describe('getTitleDepartment', () => {
+  it('prefers the functional department over executive keywords', () => {
+    expect(getTitleDepartment('Vice President Sales')).toBe('sales');
+    expect(getTitleDepartment('Founder & CTO')).toBe('engineering');
+    expect(getTitleDepartment('CEO')).toBe('executive');
+    expect(getTitleDepartment('Présidente')).toBe('executive');
+  });
+
+  it('finds accented keywords at the end of a title', () => {
+    expect(getTitleDepartment('Responsable comptabilité')).toBe('finance');
+    expect(getTitleDepartment('Responsable comptabilite')).toBe('finance');
+  });
+
+  it('matches whole words only', () => {
+    expect(getTitleDepartment('Personal Assistant')).toBe('');
+    expect(getTitleDepartment('Directeur du personnel')).toBe('hr');
+    expect(getTitleDepartment('Prime Minister')).toBe('');
+    expect(getTitleDepartment('Head of IT')).toBe('it');
+  });
+});
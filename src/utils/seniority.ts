@@ -0,0 +1,104 @@
+// Seniority of job titles, used to rank contacts at the same company. Titles
+// are matched against keyword levels from the top down; the first level that
+// matches wins. English keywords, plus common German, French and Spanish ones.
+
+export const MAX_SENIORITY = 6;
+
+/**
+ * Lowercase text without accents, so "Président" and "president" compare equal
+ */
+const stripAccents = (text: string): string => {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+};
+
+/**
+ * Match any of the keywords as whole words, ignoring accents. \b only knows
+ * ASCII letters, so word edges are checked with Unicode letter and digit
+ * classes instead ("comptabilité" at the end of a title).
+ */
+const words = (keywords: string[]): RegExp => {
+  const alternatives = stripAccents(keywords.join('|'));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'u');
+};
+
+/**
+ * Title in the form the keyword patterns are written for
+ */
+const normalizeTitle = (title: string): string => stripAccents((title || '').trim());
+
+// Owners and chief executives. "Owner" only counts at the start of a title
+// ("Owner", "Owner/Founder", "Co-owner"), not in "Product Owner"; "president"
+// does not count in "vice president".
+const EXECUTIVE_KEYWORDS = [
+  '^(?:co-?)?owner', 'business owner', 'founder', 'co-?founder', 'ceo', 'chief executive',
+  '(?<!vice[\\s-]?)présidente?', 'managing director', 'managing partner', 'general manager',
+  'inhaber', 'inhaberin', 'geschäftsführer', 'geschäftsführerin', 'gérant', 'gérante', 'pdg',
+  'fundador', 'fundadora', 'director general', 'directora general',
+];
+
+const SENIORITY_LEVELS: { level: number; pattern: RegExp }[] = [
+  { level: 6, pattern: words(EXECUTIVE_KEYWORDS) },
+  {
+    level: 5,
+    pattern: words(['chief', 'cfo', 'cto', 'coo', 'cmo', 'cio', 'cro', 'cpo', 'cso', 'cdo', 'cco', 'chro', 'executive director', 'vorstand'])
+  },
+  {
+    level: 4,
+    pattern: words(['vice[\\s-]?présidente?', 'vp', 'svp', 'evp', 'avp', 'head', 'partner', 'principal', 'bereichsleiter', 'bereichsleiterin'])
+  },
+  {
+    level: 3,
+    pattern: words(['director', 'directeur', 'directrice', 'directora?', 'leiter', 'leiterin'])
+  },
+  {
+    level: 2,
+    pattern: words(['manager', 'lead', 'supervisor', 'responsable', 'jefe', 'jefa', 'gerente'])
+  },
+];
+
+// Titles that work for someone senior rather than being senior themselves
+const SUPPORT_ROLE = words([
+  'assistant', 'assistent', 'assistentin', 'assistante', 'asistente', 'intern', 'trainee', 'praktikant',
+  'stagiaire', 'coordinator', 'office manager', 'secretary', 'sekretär', 'sekretärin',
+]);
+
+/**
+ * Score a job title from 0 (no title) to MAX_SENIORITY (owner, CEO).
+ * Any other non-empty title scores 1.
+ */
+export const getTitleSeniority = (title: string): number => {
+  const normalized = normalizeTitle(title);
+  if (!normalized) return 0;
+  if (SUPPORT_ROLE.test(normalized)) return 1;
+
+  const match = SENIORITY_LEVELS.find(({ pattern }) => pattern.test(normalized));
+  return match ? match.level : 1;
+};
+
+// Departments recognised in titles, checked in this order. Executives come
+// last, so "Founder & CTO" or "Owner, Head of Sales" keep their department.
+const DEPARTMENTS: { department: string; pattern: RegExp }[] = [
+  { department: 'sales', pattern: words(['sales', 'account executive', 'account manager', 'business development', 'bdr', 'sdr', 'cro', 'vertrieb', 'ventes', 'commercial', 'ventas']) },
+  { department: 'marketing', pattern: words(['marketing', 'cmo', 'brand', 'growth', 'communications?', 'pr', 'content', 'seo', 'kommunikation']) },
+  { department: 'finance', pattern: words(['finance', 'financial', 'cfo', 'accounting', 'accountant', 'controller', 'controlling', 'treasury', 'buchhaltung', 'finanzen', 'comptabilité', 'finanzas']) },
+  { department: 'engineering', pattern: words(['engineering', 'engineer', 'developer', 'cto', 'software', 'technology', 'technical', 'architect', 'entwicklung', 'ingénieur', 'ingeniero']) },
+  { department: 'it', pattern: words(['it', 'cio', 'information technology', 'infrastructure', 'systems', 'security', 'ciso']) },
+  { department: 'product', pattern: words(['product', 'cpo', 'ux', 'design', 'designer']) },
+  { department: 'hr', pattern: words(['hr', 'human resources', 'people', 'talent', 'recruiting', 'recruiter', 'chro', 'personnel', 'personalwesen', 'rrhh', 'ressources humaines']) },
+  { department: 'operations', pattern: words(['operations', 'coo', 'logistics', 'supply chain', 'procurement', 'purchasing', 'einkauf', 'achats', 'compras']) },
+  { department: 'legal', pattern: words(['legal', 'counsel', 'lawyer', 'attorney', 'compliance', 'clo', 'recht', 'juridique']) },
+  { department: 'customer', pattern: words(['customer', 'client', 'support', 'service', 'success', 'kundenservice']) },
+  { department: 'executive', pattern: words(EXECUTIVE_KEYWORDS) },
+];
+
+/**
+ * Department a job title belongs to, e.g. "sales" for "VP Sales", or ''
+ * when the title does not name one
+ */
+export const getTitleDepartment = (title: string): string => {
+  const normalized = normalizeTitle(title);
+  if (!normalized) return '';
+
+  const match = DEPARTMENTS.find(({ pattern }) => pattern.test(normalized));
+  return match ? match.department : '';
+};
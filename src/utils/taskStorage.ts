@@ -0,0 +1,135 @@
+import { CSVData, getResultStats, ProcessingTask } from './csvProcessing';
+import {
+  openDatabase,
+  requestToPromise,
+  RESULT_CHUNKS_STORE,
+  TASKS_STORE,
+  transactionDone
+} from './indexedDb';
+
+// Task history kept in IndexedDB. Metadata and results are stored separately
+// so the history list can be shown without loading every result, and results
+// are cut into chunks so a single record never gets too large.
+
+export type StoredTask = Omit<ProcessingTask, 'result' | 'progress' | 'stage'> & {
+  stats: ReturnType<typeof getResultStats>;
+  chunkCount: number;
+  savedAt: string;
+};
+
+type ResultChunk = {
+  taskId: string;
+  index: number;
+  rows: CSVData;
+};
+
+export type StorageUsage = {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes available to this origin
+};
+
+/**
+ * Rows per stored result chunk
+ */
+export const RESULT_CHUNK_SIZE = 5000;
+
+/**
+ * Key range covering every chunk of a task
+ */
+const chunkRange = (taskId: string) => IDBKeyRange.bound([taskId, 0], [taskId, Infinity]);
+
+/**
+ * Store a completed task and its result, replacing an earlier copy
+ */
+export const saveTask = async (task: ProcessingTask): Promise<void> => {
+  const result = task.result || [];
+  const chunkCount = Math.ceil(result.length / RESULT_CHUNK_SIZE);
+
+  const { result: _result, progress: _progress, stage: _stage, ...metadata } = task;
+  const storedTask: StoredTask = {
+    ...metadata,
+    stats: getResultStats(result),
+    chunkCount,
+    savedAt: new Date().toISOString()
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction([TASKS_STORE, RESULT_CHUNKS_STORE], 'readwrite');
+  const chunks = transaction.objectStore(RESULT_CHUNKS_STORE);
+
+  chunks.delete(chunkRange(task.id));
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk: ResultChunk = {
+      taskId: task.id,
+      index,
+      rows: result.slice(index * RESULT_CHUNK_SIZE, (index + 1) * RESULT_CHUNK_SIZE)
+    };
+    chunks.put(chunk);
+  }
+  transaction.objectStore(TASKS_STORE).put(storedTask);
+
+  await transactionDone(transaction);
+};
+
+/**
+ * List stored tasks, most recent first
+ */
+export const listStoredTasks = async (): Promise<StoredTask[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(TASKS_STORE, 'readonly');
+  const storedTasks = await requestToPromise<StoredTask[]>(transaction.objectStore(TASKS_STORE).getAll());
+
+  return storedTasks.sort((a, b) =>
+    (b.completedTime || b.savedAt).localeCompare(a.completedTime || a.savedAt)
+  );
+};
+
+/**
+ * Load a stored task together with its result
+ */
+export const loadStoredTask = async (taskId: string): Promise<ProcessingTask | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([TASKS_STORE, RESULT_CHUNKS_STORE], 'readonly');
+
+  const [storedTask, chunks] = await Promise.all([
+    requestToPromise<StoredTask | undefined>(transaction.objectStore(TASKS_STORE).get(taskId)),
+    requestToPromise<ResultChunk[]>(transaction.objectStore(RESULT_CHUNKS_STORE).getAll(chunkRange(taskId)))
+  ]);
+
+  if (!storedTask) return null;
+
+  const { stats, chunkCount, savedAt, ...task } = storedTask;
+  // Chunks come back in key order
+  const result = chunks.flatMap(chunk => chunk.rows);
+
+  return {
+    ...task,
+    progress: 1,
+    result
+  };
+};
+
+/**
+ * Remove a stored task and its result
+ */
+export const deleteStoredTask = async (taskId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([TASKS_STORE, RESULT_CHUNKS_STORE], 'readwrite');
+
+  transaction.objectStore(TASKS_STORE).delete(taskId);
+  transaction.objectStore(RESULT_CHUNKS_STORE).delete(chunkRange(taskId));
+
+  await transactionDone(transaction);
+};
+
+/**
+ * How much storage the app uses and may use, when the browser reports it
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage || !navigator.storage.estimate) {
+    return null;
+  }
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,94 @@
+import { TXT_CACHE_STORE, openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+// TXT lookups (SPF on the domain, DMARC on _dmarc.domain) kept in IndexedDB
+// next to the MX cache, with the same expiry rules (see getExpiryTime).
+
+export type TXTCacheEntry = {
+  name: string; // Queried name, e.g. "example.com" or "_dmarc.example.com"
+  status: 'resolved' | 'failed';
+  records: string[]; // Raw TXT answers
+  fetchedAt: number; // Epoch milliseconds
+  expiresAt: number; // Epoch milliseconds
+  error?: string;
+};
+
+/**
+ * Read the entries for the given names that have not expired yet
+ */
+export const readFreshTXTEntries = async (
+  names: string[],
+  now = Date.now()
+): Promise<Map<string, TXTCacheEntry>> => {
+  const db = await openDatabase();
+  const store = db.transaction(TXT_CACHE_STORE, 'readonly').objectStore(TXT_CACHE_STORE);
+
+  const entries = await Promise.all(
+    names.map(name => requestToPromise<TXTCacheEntry | undefined>(store.get(name)))
+  );
+
+  const fresh = new Map<string, TXTCacheEntry>();
+  entries.forEach(entry => {
+    if (entry && entry.expiresAt > now) {
+      fresh.set(entry.name, entry);
+    }
+  });
+  return fresh;
+};
+
+/**
+ * Store lookup results, replacing older entries for the same names
+ */
+export const writeTXTEntries = async (entries: TXTCacheEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(TXT_CACHE_STORE, 'readwrite');
+  const store = transaction.objectStore(TXT_CACHE_STORE);
+  entries.forEach(entry => store.put(entry));
+
+  await transactionDone(transaction);
+};
+
+/**
+ * Number of cached TXT lookups
+ */
+export const countTXTEntries = async (): Promise<number> => {
+  const db = await openDatabase();
+  const store = db.transaction(TXT_CACHE_STORE, 'readonly').objectStore(TXT_CACHE_STORE);
+  return requestToPromise<number>(store.count());
+};
+
+/**
+ * Remove every entry
+ */
+export const clearTXTCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(TXT_CACHE_STORE, 'readwrite');
+  transaction.objectStore(TXT_CACHE_STORE).clear();
+
+  await transactionDone(transaction);
+};
+
+/**
+ * Remove expired entries and return how many were removed
+ */
+export const purgeExpiredTXTEntries = async (now = Date.now()): Promise<number> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(TXT_CACHE_STORE, 'readwrite');
+  const request = transaction.objectStore(TXT_CACHE_STORE).openCursor();
+  let removed = 0;
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    if ((cursor.value as TXTCacheEntry).expiresAt <= now) {
+      cursor.delete();
+      removed++;
+    }
+    cursor.continue();
+  };
+
+  await transactionDone(transaction);
+  return removed;
+};
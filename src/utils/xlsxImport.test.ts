@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { cellToString, readWorkbook, sheetToRows, summarizeSheets } from './xlsxImport';
+import type { CSVRow } from './csvProcessing';
+
+const link = (value: string, target: string): XLSX.CellObject => ({ t: 's', v: value, l: { Target: target } });
+
+describe('cellToString', () => {
+  it('keeps the text of a named link', () => {
+    expect(cellToString(link('Jane Doe', 'https://www.linkedin.com/in/jane-doe'))).toBe('Jane Doe');
+    expect(cellToString(link('Visit site', 'https://acme.com'))).toBe('Visit site');
+  });
+
+  it('uses the link target when the cell shows nothing', () => {
+    expect(cellToString(link('', 'https://acme.com'))).toBe('https://acme.com');
+    expect(cellToString(link('', 'mailto:jane@acme.com'))).toBe('jane@acme.com');
+  });
+
+  it('uses the address of a mailto link to the address shown', () => {
+    expect(cellToString(link('Jane@Acme.com ', 'mailto:jane@acme.com?subject=Hello'))).toBe('jane@acme.com');
+    expect(cellToString(link('mailto:jane@acme.com', 'MAILTO:jane@acme.com'))).toBe('jane@acme.com');
+  });
+
+  it('keeps the text of a mailto link to a different address', () => {
+    expect(cellToString(link('Email us', 'mailto:info@acme.com'))).toBe('Email us');
+  });
+
+  it('formats numbers, dates and booleans', () => {
+    expect(cellToString({ t: 'n', v: 4915112345678 })).toBe('4915112345678');
+    expect(cellToString({ t: 'n', v: 0.12, w: '12%', z: '0%' })).toBe('12%');
+    expect(cellToString({ t: 'd', v: new Date(2024, 2, 5) })).toBe('2024-03-05');
+    expect(cellToString({ t: 'b', v: false })).toBe('false');
+    expect(cellToString({ t: 'e', v: 7 })).toBe('');
+    expect(cellToString(undefined)).toBe('');
+  });
+});
+
+describe('sheetToRows', () => {
+  const buildWorkbook = () => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['Exported on 2024-03-05'],
+      ['Name', 'Email', '', 'Email'],
+      ['Jane Doe', 'jane@acme.com', 'x', 'j.doe@acme.com'],
+      [],
+      ['John Roe', 'john@acme.com'],
+    ]);
+    sheet['A3'].l = { Target: 'https://www.linkedin.com/in/jane-doe' };
+    sheet['B3'].l = { Target: 'mailto:jane@acme.com' };
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Leads');
+    return workbook;
+  };
+
+  it('reads rows below the chosen header row with unique headers', () => {
+    const rows: CSVRow[] = [];
+    const headers = sheetToRows(buildWorkbook(), 'Leads', 1, row => rows.push(row));
+
+    expect(headers).toEqual(['Name', 'Email', 'column_3', 'Email_2']);
+    expect(rows).toEqual([
+      { Name: 'Jane Doe', Email: 'jane@acme.com', column_3: 'x', Email_2: 'j.doe@acme.com' },
+      { Name: 'John Roe', Email: 'john@acme.com', column_3: '', Email_2: '' },
+    ]);
+  });
+
+  it('keeps link text after a round trip through an .xlsx file', () => {
+    const bytes: ArrayBuffer = XLSX.write(buildWorkbook(), { type: 'array', bookType: 'xlsx' });
+    const [summary] = summarizeSheets(readWorkbook(bytes));
+
+    expect(summary.name).toBe('Leads');
+    expect(summary.rowCount).toBe(5);
+    expect(summary.preview[2].slice(0, 2)).toEqual(['Jane Doe', 'jane@acme.com']);
+  });
+});
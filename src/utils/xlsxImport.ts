@@ -0,0 +1,162 @@
+import * as XLSX from 'xlsx';
+import type { CSVRow } from './csvProcessing';
+import { normalizeHeaders } from './csvParser';
+
+// Conversion of Excel workbooks (.xlsx / .xls) into the CSVRow shape used by
+// the rest of the app. Runs inside the workbook worker.
+
+export type SheetSummary = {
+  name: string;
+  rowCount: number;
+  preview: string[][]; // First rows as displayed strings, used to pick the header row
+};
+
+/**
+ * Number of rows shown when choosing a sheet and header row
+ */
+export const SHEET_PREVIEW_ROWS = 10;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Format a date cell as YYYY-MM-DD, adding the time only when it is set
+ */
+const formatDate = (date: Date): string => {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) {
+    return day;
+  }
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+/**
+ * The value a cell shows in the spreadsheet
+ */
+const displayedValue = (cell: XLSX.CellObject): string => {
+  switch (cell.t) {
+    case 'd':
+      // Date-formatted cells are read as dates thanks to the cellDates option
+      return cell.v instanceof Date ? formatDate(cell.v) : String(cell.v ?? '');
+    case 'n': {
+      const value = cell.v as number;
+      // Percentages and amounts keep the text shown in the spreadsheet ("12%",
+      // "$1,200.00"); cellNF makes their number format available in cell.z
+      if (cell.w && cell.z && /%|[$€£¥]|\[\$/.test(String(cell.z))) {
+        return cell.w.trim();
+      }
+      // Avoid exponent notation and thousands separators for IDs and phone numbers
+      return Number.isInteger(value) ? value.toFixed(0) : String(value);
+    }
+    case 'b':
+      return cell.v ? 'true' : 'false';
+    case 'e':
+    case 'z':
+      return '';
+    default:
+      return String(cell.v ?? '').trim();
+  }
+};
+
+/**
+ * Convert a single cell to the string stored in a CSVRow. Hyperlinked cells
+ * keep the text they show ("Jane Doe" linked to a profile stays "Jane Doe");
+ * the link target is only used when the cell shows nothing, or when it is a
+ * mailto: link to the address shown.
+ */
+export const cellToString = (cell: XLSX.CellObject | undefined): string => {
+  if (!cell) return '';
+
+  const displayed = displayedValue(cell);
+  const target = cell.l && cell.l.Target ? cell.l.Target.trim() : '';
+  if (!target) return displayed;
+
+  if (/^mailto:/i.test(target)) {
+    const address = target.replace(/^mailto:/i, '').split('?')[0].trim();
+    const shown = displayed.replace(/^mailto:/i, '');
+    return !displayed || address.toLowerCase() === shown.toLowerCase() ? address : displayed;
+  }
+
+  return displayed || target;
+};
+
+/**
+ * Read a workbook from raw file bytes
+ */
+export const readWorkbook = (buffer: ArrayBuffer): XLSX.WorkBook => {
+  return XLSX.read(buffer, { type: 'array', cellDates: true, cellNF: true });
+};
+
+/**
+ * Read one row of a sheet as strings
+ */
+const readSheetRow = (sheet: XLSX.WorkSheet, range: XLSX.Range, rowIndex: number): string[] => {
+  const values: string[] = [];
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    const address = XLSX.utils.encode_cell({ r: rowIndex, c: col });
+    values.push(cellToString(sheet[address]));
+  }
+  return values;
+};
+
+/**
+ * Summarize every sheet in the workbook for the sheet picker
+ */
+export const summarizeSheets = (workbook: XLSX.WorkBook): SheetSummary[] => {
+  return workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    if (!sheet || !sheet['!ref']) {
+      return { name, rowCount: 0, preview: [] };
+    }
+
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const preview: string[][] = [];
+    const lastPreviewRow = Math.min(range.e.r, range.s.r + SHEET_PREVIEW_ROWS - 1);
+    for (let row = range.s.r; row <= lastPreviewRow; row++) {
+      preview.push(readSheetRow(sheet, range, row));
+    }
+
+    return { name, rowCount: range.e.r - range.s.r + 1, preview };
+  });
+};
+
+/**
+ * Convert a sheet into rows, using the given (0-based, relative to the sheet
+ * start) row as the header. Completely empty rows are skipped.
+ */
+export const sheetToRows = (
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  headerRow: number,
+  onRow: (row: CSVRow) => void
+): string[] => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet || !sheet['!ref']) {
+    return [];
+  }
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const headerIndex = range.s.r + headerRow;
+  if (headerIndex > range.e.r) {
+    return [];
+  }
+
+  // Trailing empty header cells are dropped, as with trailing CSV delimiters
+  const rawHeaders = readSheetRow(sheet, range, headerIndex);
+  while (rawHeaders.length > 1 && rawHeaders[rawHeaders.length - 1] === '') {
+    rawHeaders.pop();
+  }
+  const headers = normalizeHeaders(rawHeaders);
+
+  for (let rowIndex = headerIndex + 1; rowIndex <= range.e.r; rowIndex++) {
+    const values = readSheetRow(sheet, range, rowIndex);
+    if (values.every(value => value === '')) continue;
+
+    const row: CSVRow = {};
+    headers.forEach((header, index) => {
+      row[header] = values[index] || '';
+    });
+    onRow(row);
+  }
+
+  return headers;
+};
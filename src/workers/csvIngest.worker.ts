@@ -0,0 +1,67 @@
+import { createCSVRowParser } from '../utils/csvParser';
+import type { CSVRow } from '../utils/csvProcessing';
+import { CSVDialect, getDecoderLabel } from '../utils/dialect';
+import type { IngestRequest, IngestResponse } from '../utils/fileIngestion';
+
+// Reads an uploaded file in slices, parses it incrementally and streams the
+// rows back to the main thread in batches.
+
+const READ_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB of raw bytes per read
+const ROW_BATCH_SIZE = 5000;
+
+const post = (message: IngestResponse) => {
+  self.postMessage(message);
+};
+
+const ingest = async (file: File, dialect: CSVDialect) => {
+  let batch: CSVRow[] = [];
+  let rowCount = 0;
+
+  const parser = createCSVRowParser(row => {
+    batch.push(row);
+    rowCount++;
+
+    if (batch.length >= ROW_BATCH_SIZE) {
+      post({ type: 'rows', rows: batch });
+      batch = [];
+    }
+  }, { delimiter: dialect.delimiter, quote: dialect.quote });
+
+  const decoder = new TextDecoder(getDecoderLabel(dialect.encoding));
+
+  for (let offset = 0; offset < file.size; offset += READ_CHUNK_SIZE) {
+    const buffer = await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer();
+    // stream: true keeps multi-byte characters split across slices intact
+    parser.push(decoder.decode(buffer, { stream: true }));
+
+    post({
+      type: 'progress',
+      bytesRead: Math.min(offset + READ_CHUNK_SIZE, file.size),
+      totalBytes: file.size,
+      rowCount
+    });
+  }
+
+  parser.push(decoder.decode());
+  parser.finish();
+
+  if (batch.length > 0) {
+    post({ type: 'rows', rows: batch });
+  }
+
+  post({
+    type: 'done',
+    headers: parser.getHeaders(),
+    rowCount,
+    errors: parser.getErrors(),
+    errorCount: parser.getErrorCount()
+  });
+};
+
+self.onmessage = (event: MessageEvent<IngestRequest>) => {
+  if (event.data.type !== 'start') return;
+
+  ingest(event.data.file, event.data.dialect).catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+};
@@ -0,0 +1,66 @@
+import { runPipeline, StageReport } from '../utils/csvProcessing';
+import { createResolver } from '../utils/dnsResolver';
+import type { LookupStats } from '../utils/lookupScheduler';
+import type { PipelineRequest, PipelineResponse } from '../utils/pipelineRunner';
+
+// Runs one cleaning pipeline off the main thread. Each task gets its own
+// worker, so a cancel request only ever refers to the running pipeline.
+
+const PROGRESS_INTERVAL_MS = 100;
+
+const controller = new AbortController();
+let lastStage = '';
+let lastProgressAt = 0;
+let lookupStats: LookupStats | undefined;
+
+const post = (message: PipelineResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controller.abort();
+    return;
+  }
+
+  const stageReports: StageReport[] = [];
+
+  runPipeline(
+    request.fileType,
+    request.data,
+    request.mappedColumns,
+    (processed, total, stage) => {
+      // Throttle progress messages, but always report stage changes
+      const now = Date.now();
+      if (stage !== lastStage || processed >= total || now - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+        lastStage = stage;
+        lastProgressAt = now;
+        post({ type: 'progress', processed, total, stage, lookupStats });
+      }
+    },
+    {
+      signal: controller.signal,
+      lookupSettings: request.lookupSettings,
+      resolver: createResolver(request.resolver),
+      providerCatalogue: request.providerCatalogue,
+      taskOptions: request.taskOptions,
+      emailDomainLists: request.emailDomainLists,
+      roleAccountGroups: request.roleAccountGroups,
+      onLookupStats: stats => {
+        lookupStats = stats;
+      },
+      onStageComplete: report => stageReports.push(report)
+    }
+  )
+    .then(result => post({ type: 'done', result, stageReports }))
+    .catch(error => {
+      if (controller.signal.aborted) {
+        post({ type: 'cancelled' });
+      } else {
+        console.error('Error in pipeline worker:', error);
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+};
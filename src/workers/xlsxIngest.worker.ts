@@ -0,0 +1,63 @@
+import type { WorkBook } from 'xlsx';
+import type { CSVRow } from '../utils/csvProcessing';
+import type { WorkbookRequest, WorkbookResponse } from '../utils/fileIngestion';
+import { readWorkbook, sheetToRows, summarizeSheets } from '../utils/xlsxImport';
+
+// Holds an opened workbook while the user picks a sheet and header row, then
+// converts the chosen sheet and streams the rows back in batches.
+
+const ROW_BATCH_SIZE = 5000;
+
+let workbook: WorkBook | null = null;
+
+const post = (message: WorkbookResponse) => {
+  self.postMessage(message);
+};
+
+const open = async (file: File) => {
+  const buffer = await file.arrayBuffer();
+  workbook = readWorkbook(buffer);
+  post({ type: 'opened', sheets: summarizeSheets(workbook) });
+};
+
+const convert = (sheetName: string, headerRow: number) => {
+  if (!workbook) {
+    throw new Error('No workbook is open');
+  }
+
+  let batch: CSVRow[] = [];
+  let rowCount = 0;
+
+  const headers = sheetToRows(workbook, sheetName, headerRow, row => {
+    batch.push(row);
+    rowCount++;
+
+    if (batch.length >= ROW_BATCH_SIZE) {
+      post({ type: 'rows', rows: batch });
+      post({ type: 'progress', rowCount });
+      batch = [];
+    }
+  });
+
+  if (batch.length > 0) {
+    post({ type: 'rows', rows: batch });
+  }
+
+  post({ type: 'done', headers, rowCount });
+};
+
+self.onmessage = (event: MessageEvent<WorkbookRequest>) => {
+  const request = event.data;
+
+  const run = async () => {
+    if (request.type === 'open') {
+      await open(request.file);
+    } else if (request.type === 'convert') {
+      convert(request.sheetName, request.headerRow);
+    }
+  };
+
+  run().catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+};